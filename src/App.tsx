@@ -2,12 +2,21 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { PreferencesProvider } from './contexts/PreferencesContext';
+import { SocketProvider } from './contexts/SocketContext';
+import { OfflineProvider } from './contexts/OfflineContext';
+import { NotificationsProvider } from './contexts/NotificationsContext';
 import ProtectedRoute from './components/ProtectedRoute';
+import UpdatePrompt from './components/UpdatePrompt';
+import SessionExpiryWarning from './components/SessionExpiryWarning';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Marketplace from './pages/Marketplace';
 import Requests from './pages/Requests';
+import History from './pages/History';
+import Settings from './pages/Settings';
+import Sync from './pages/Sync';
 
 const AppRoutes: React.FC = () => {
   const { isAuthenticated } = useAuth();
@@ -49,6 +58,30 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/history" 
+        element={
+          <ProtectedRoute>
+            <History />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/settings" 
+        element={
+          <ProtectedRoute>
+            <Settings />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/sync" 
+        element={
+          <ProtectedRoute>
+            <Sync />
+          </ProtectedRoute>
+        } 
+      />
       
       {/* Default redirect */}
       <Route 
@@ -68,35 +101,45 @@ const AppRoutes: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <Router>
-        <div className="App">
-          <AppRoutes />
-          <Toaster 
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-              success: {
-                duration: 3000,
-                iconTheme: {
-                  primary: '#4ade80',
-                  secondary: '#fff',
-                },
-              },
-              error: {
-                duration: 5000,
-                iconTheme: {
-                  primary: '#ef4444',
-                  secondary: '#fff',
-                },
-              },
-            }}
-          />
-        </div>
-      </Router>
+      <PreferencesProvider>
+        <SocketProvider>
+          <OfflineProvider>
+            <NotificationsProvider>
+              <Router>
+                <div className="App">
+                  <AppRoutes />
+                  <UpdatePrompt />
+                  <SessionExpiryWarning />
+                  <Toaster 
+                    position="top-right"
+                    toastOptions={{
+                      duration: 4000,
+                      style: {
+                        background: '#363636',
+                        color: '#fff',
+                      },
+                      success: {
+                        duration: 3000,
+                        iconTheme: {
+                          primary: '#4ade80',
+                          secondary: '#fff',
+                        },
+                      },
+                      error: {
+                        duration: 5000,
+                        iconTheme: {
+                          primary: '#ef4444',
+                          secondary: '#fff',
+                        },
+                      },
+                    }}
+                  />
+                </div>
+              </Router>
+            </NotificationsProvider>
+          </OfflineProvider>
+        </SocketProvider>
+      </PreferencesProvider>
     </AuthProvider>
   );
 };
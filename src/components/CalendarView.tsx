@@ -0,0 +1,416 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  differenceInCalendarDays,
+  format,
+  isSameDay,
+  isSameMonth,
+  parseISO,
+  setHours,
+  startOfDay,
+} from 'date-fns';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { Event, EventStatus } from '../types';
+import {
+  CalendarView as CalendarViewMode,
+  DEFAULT_SNAP_MINUTES,
+  HOUR_HEIGHT,
+  STATUS_COLORS,
+  getEventsForDay,
+  getRangeLabel,
+  getVisibleDays,
+  layoutDayEvents,
+  shiftDate,
+  snapToStep,
+} from '../utils/calendar';
+
+interface CalendarViewProps {
+  events: Event[];
+  view: CalendarViewMode;
+  date: Date;
+  onDateChange: (date: Date) => void;
+  onDrillDown: (day: Date) => void;
+  onEventClick: (event: Event) => void;
+  onSlotSelect: (start: Date, end: Date) => void;
+  onEventChange?: (event: Event, start: Date, end: Date) => void;
+  snapMinutes?: number;
+  // Current time in the same wall-clock frame as the events
+  now?: Date;
+  // Events with changes the server has not confirmed yet
+  pendingIds?: ReadonlySet<string>;
+}
+
+interface DragState {
+  event: Event;
+  mode: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  start: Date;
+  end: Date;
+  moved: boolean;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MAX_MONTH_CELL_EVENTS = 3;
+// Hour used when creating an event from a month cell, which has no time of its own
+const MONTH_SLOT_HOUR = 9;
+// Pointer travel in pixels before a press on an event counts as a drag
+const DRAG_THRESHOLD = 4;
+
+const CalendarView: React.FC<CalendarViewProps> = ({
+  events,
+  view,
+  date,
+  onDateChange,
+  onDrillDown,
+  onEventClick,
+  onSlotSelect,
+  onEventChange,
+  snapMinutes = DEFAULT_SNAP_MINUTES,
+  now = new Date(),
+  pendingIds,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const suppressClickRef = useRef(false);
+  // Callers pass inline handlers; a ref keeps the drag listeners from being re-bound on every render
+  const onEventChangeRef = useRef(onEventChange);
+  onEventChangeRef.current = onEventChange;
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const days = getVisibleDays(view, date);
+
+  const canReschedule = (event: Event) => !!onEventChange && event.status !== EventStatus.SWAP_PENDING;
+
+  const updateDrag = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  // Listen on the window so the drag survives the event block moving to another day column
+  const isDragging = !!drag;
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+
+      const originalStart = parseISO(current.event.startTime);
+      const originalEnd = parseISO(current.event.endTime);
+      const deltaX = e.clientX - current.originX;
+      const deltaY = e.clientY - current.originY;
+      const deltaMinutes = (deltaY / HOUR_HEIGHT) * 60;
+      const moved = current.moved || Math.hypot(deltaX, deltaY) > DRAG_THRESHOLD;
+
+      if (current.mode === 'resize') {
+        const minEnd = addMinutes(originalStart, snapMinutes);
+        const end = snapToStep(addMinutes(originalEnd, deltaMinutes), snapMinutes);
+        updateDrag({ ...current, end: end < minEnd ? minEnd : end, moved });
+        return;
+      }
+
+      const columnWidth = columnsRef.current ? columnsRef.current.offsetWidth / days.length : 0;
+      const deltaDays = columnWidth ? Math.round(deltaX / columnWidth) : 0;
+      const start = snapToStep(addMinutes(addDays(originalStart, deltaDays), deltaMinutes), snapMinutes);
+      const end = new Date(start.getTime() + (originalEnd.getTime() - originalStart.getTime()));
+      updateDrag({ ...current, start, end, moved });
+    };
+
+    const handlePointerUp = () => {
+      const current = dragRef.current;
+      updateDrag(null);
+      if (!current || !current.moved) return;
+
+      suppressClickRef.current = true;
+      const changed =
+        current.start.getTime() !== parseISO(current.event.startTime).getTime() ||
+        current.end.getTime() !== parseISO(current.event.endTime).getTime();
+      if (changed) {
+        onEventChangeRef.current?.(current.event, current.start, current.end);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [isDragging, days.length, snapMinutes]);
+
+  const handlePointerDown = (e: React.PointerEvent, event: Event, mode: DragState['mode']) => {
+    suppressClickRef.current = false;
+    if (!canReschedule(event) || e.button !== 0) return;
+
+    e.stopPropagation();
+    updateDrag({
+      event,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      start: parseISO(event.startTime),
+      end: parseISO(event.endTime),
+      moved: false,
+    });
+  };
+
+  const handleEventClick = (event: Event) => {
+    // A drag ends with a click on the same block, which should not open the editor
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    onEventClick(event);
+  };
+
+  const handleMonthDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    const event = events.find(item => item._id === e.dataTransfer.getData('text/plain'));
+    if (!event || !canReschedule(event)) return;
+
+    const start = parseISO(event.startTime);
+    const offset = differenceInCalendarDays(day, start);
+    if (offset !== 0) {
+      onEventChange?.(event, addDays(start, offset), addDays(parseISO(event.endTime), offset));
+    }
+  };
+
+  // While dragging, render the event at its proposed position
+  const displayedEvents = drag
+    ? events.map(event =>
+        event._id === drag.event._id
+          ? { ...event, startTime: drag.start.toISOString(), endTime: drag.end.toISOString() }
+          : event
+      )
+    : events;
+
+  // Start the time grid scrolled to the working day instead of midnight
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 8 * HOUR_HEIGHT;
+    }
+  }, [view]);
+
+  const renderToolbar = () => (
+    <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+      <h2 className="text-lg font-medium text-gray-900">{getRangeLabel(view, date)}</h2>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => onDateChange(shiftDate(view, date, -1))}
+          className="p-1 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+        >
+          <ChevronLeftIcon className="h-5 w-5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onDateChange(now)}
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => onDateChange(shiftDate(view, date, 1))}
+          className="p-1 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+        >
+          <ChevronRightIcon className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderTimeGrid = () => (
+    <>
+      <div className="flex border-b border-gray-200">
+        <div className="w-16 flex-shrink-0" />
+        {days.map(day => (
+          <button
+            key={day.toISOString()}
+            type="button"
+            onClick={() => onDrillDown(day)}
+            className={`flex-1 py-2 text-center text-sm ${
+              isSameDay(day, now) ? 'text-primary-600 font-semibold' : 'text-gray-700'
+            } hover:bg-gray-50`}
+          >
+            {format(day, view === 'day' ? 'EEEE d' : 'EEE d')}
+          </button>
+        ))}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto">
+        <div className={`flex ${drag?.moved ? 'select-none' : ''}`}>
+          <div className="w-16 flex-shrink-0">
+            {HOURS.map(hour => (
+              <div key={hour} className="relative text-right pr-2 text-xs text-gray-400" style={{ height: HOUR_HEIGHT }}>
+                <span className="relative -top-2">{hour === 0 ? '' : format(setHours(startOfDay(now), hour), 'h a')}</span>
+              </div>
+            ))}
+          </div>
+
+          <div ref={columnsRef} className="flex flex-1">
+            {days.map(day => (
+              <div key={day.toISOString()} className="relative flex-1 border-l border-gray-200">
+                {HOURS.map(hour => {
+                  const slotStart = setHours(startOfDay(day), hour);
+                  return (
+                    <div
+                      key={hour}
+                      onClick={() => onSlotSelect(slotStart, addHours(slotStart, 1))}
+                      className="border-b border-gray-100 hover:bg-primary-50 cursor-pointer"
+                      style={{ height: HOUR_HEIGHT }}
+                    />
+                  );
+                })}
+
+                {layoutDayEvents(displayedEvents, day).map(({ event, start, end, top, height, column, columns }) => {
+                  const isDragged = drag?.event._id === event._id;
+                  const draggable = canReschedule(event);
+                  return (
+                    <div
+                      key={event._id}
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => handleEventClick(event)}
+                      onPointerDown={(e) => handlePointerDown(e, event, 'move')}
+                      className={`absolute overflow-hidden rounded-md border-l-4 px-1.5 py-0.5 text-left text-xs shadow-sm ${
+                        STATUS_COLORS[event.status]
+                      } ${parseISO(event.endTime) < now ? 'opacity-60' : ''} ${
+                        draggable ? 'cursor-move touch-none' : 'cursor-pointer'
+                      } ${isDragged && drag.moved ? 'z-10 ring-2 ring-primary-500 shadow-lg' : ''} ${
+                        pendingIds?.has(event._id) ? 'animate-pulse' : ''
+                      }`}
+                      style={{
+                        top,
+                        height,
+                        left: isDragged ? 0 : `${(column / columns) * 100}%`,
+                        width: isDragged ? '100%' : `${100 / columns}%`,
+                      }}
+                      title={event.title}
+                    >
+                      <div className="font-medium truncate">{event.title}</div>
+                      <div className="truncate">
+                        {format(start, 'h:mm a')} - {format(end, 'h:mm a')}
+                      </div>
+                      {draggable && (
+                        <div
+                          onPointerDown={(e) => handlePointerDown(e, event, 'resize')}
+                          className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {isSameDay(day, now) && (
+                  <div
+                    className="absolute left-0 right-0 border-t-2 border-red-500 pointer-events-none"
+                    style={{ top: ((now.getHours() * 60 + now.getMinutes()) / 60) * HOUR_HEIGHT }}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+
+  const renderMonthGrid = () => (
+    <>
+      <div className="grid grid-cols-7 border-b border-gray-200">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7">
+        {days.map(day => {
+          const dayEvents = getEventsForDay(events, day);
+          const hiddenCount = dayEvents.length - MAX_MONTH_CELL_EVENTS;
+          const slotStart = setHours(startOfDay(day), MONTH_SLOT_HOUR);
+
+          return (
+            <div
+              key={day.toISOString()}
+              onClick={() => onSlotSelect(slotStart, addHours(slotStart, 1))}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleMonthDrop(e, day)}
+              className={`min-h-[6rem] border-b border-l border-gray-100 p-1 cursor-pointer hover:bg-primary-50 ${
+                isSameMonth(day, date) ? 'bg-white' : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDrillDown(day);
+                  }}
+                  className={`h-6 w-6 rounded-full text-xs ${
+                    isSameDay(day, now)
+                      ? 'bg-primary-600 text-white'
+                      : isSameMonth(day, date)
+                        ? 'text-gray-900 hover:bg-gray-200'
+                        : 'text-gray-400 hover:bg-gray-200'
+                  }`}
+                >
+                  {format(day, 'd')}
+                </button>
+              </div>
+
+              <div className="mt-1 space-y-1">
+                {dayEvents.slice(0, MAX_MONTH_CELL_EVENTS).map(event => (
+                  <button
+                    key={event._id}
+                    type="button"
+                    draggable={canReschedule(event)}
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', event._id)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onEventClick(event);
+                    }}
+                    className={`block w-full truncate rounded border-l-4 px-1 text-left text-xs ${STATUS_COLORS[event.status]} ${
+                      pendingIds?.has(event._id) ? 'animate-pulse' : ''
+                    }`}
+                    title={event.title}
+                  >
+                    {format(parseISO(event.startTime), 'h:mm a')} {event.title}
+                  </button>
+                ))}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDrillDown(day);
+                    }}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="bg-white shadow ring-1 ring-black ring-opacity-5 md:rounded-lg overflow-hidden">
+      {renderToolbar()}
+      {view === 'month' ? renderMonthGrid() : renderTimeGrid()}
+    </div>
+  );
+};
+
+export default CalendarView;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React from 'react';
+import { CheckCircleIcon, ClockIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ChainSwap, ChainSwapStatus, Event, User } from '../types';
+import { getUserId } from '../utils/swapChains';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface ChainSwapCardProps {
+  chainSwap: ChainSwap;
+  currentUserId: string;
+  onRespond: (chainSwapId: string, approve: boolean) => void;
+}
+
+const STATUS_STYLES: Record<ChainSwapStatus, string> = {
+  [ChainSwapStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
+  [ChainSwapStatus.COMPLETED]: 'bg-green-100 text-green-800',
+  [ChainSwapStatus.DECLINED]: 'bg-red-100 text-red-800',
+};
+
+const ChainSwapCard: React.FC<ChainSwapCardProps> = ({ chainSwap, currentUserId, onRespond }) => {
+  const { formatDate } = usePreferences();
+
+  const participants = chainSwap.links.map(link => link.fromUserId as User);
+  const getName = (user: string | User) => {
+    const userId = getUserId(user);
+    if (userId === currentUserId) return 'You';
+    return participants.find(participant => participant.id === userId)?.name ?? 'Someone';
+  };
+
+  const hasApproved = chainSwap.approvedBy.includes(currentUserId);
+  const declinedBy = chainSwap.declinedBy;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{chainSwap.links.length}-way chain swap</p>
+          <p className="text-sm text-gray-500">
+            {formatDate(chainSwap.createdAt, 'MMM d, yyyy at h:mm a')}
+          </p>
+        </div>
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[chainSwap.status]}`}>
+          {chainSwap.status}
+        </span>
+      </div>
+
+      <ul className="space-y-3">
+        {chainSwap.links.map(link => {
+          const slot = link.slotId as Event;
+          const approved = chainSwap.approvedBy.includes(getUserId(link.fromUserId));
+          return (
+            <li key={slot._id} className="flex items-start justify-between border rounded-lg p-3">
+              <div className="text-sm">
+                <p>
+                  <span className="font-medium text-gray-900">{getName(link.fromUserId)}</span>
+                  {' → '}
+                  <span className="font-medium text-gray-900">{getName(link.toUserId)}</span>
+                </p>
+                <p className="text-gray-600">
+                  {slot.title} • {formatDate(slot.startTime, 'MMM d, h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                </p>
+              </div>
+              {approved ? (
+                <span className="flex items-center text-xs text-green-700">
+                  <CheckCircleIcon className="h-4 w-4 mr-1" />
+                  Approved
+                </span>
+              ) : (
+                <span className="flex items-center text-xs text-gray-500">
+                  <ClockIcon className="h-4 w-4 mr-1" />
+                  Waiting
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className="mt-4 text-sm text-gray-600">
+        {chainSwap.approvedBy.length} of {chainSwap.links.length} participants approved
+      </p>
+
+      {chainSwap.status === ChainSwapStatus.PENDING && !hasApproved && (
+        <div className="mt-4 flex space-x-3">
+          <button
+            onClick={() => onRespond(chainSwap._id, true)}
+            className="flex-1 inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+          >
+            <CheckIcon className="h-4 w-4 mr-2" />
+            Approve
+          </button>
+          <button
+            onClick={() => onRespond(chainSwap._id, false)}
+            className="flex-1 inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            <XMarkIcon className="h-4 w-4 mr-2" />
+            Decline
+          </button>
+        </div>
+      )}
+
+      {chainSwap.status === ChainSwapStatus.COMPLETED && (
+        <p className="mt-4 text-center text-sm text-gray-600">✅ Chain swap completed</p>
+      )}
+      {chainSwap.status === ChainSwapStatus.DECLINED && (
+        <p className="mt-4 text-center text-sm text-gray-600">
+          ❌ {declinedBy ? `${getName(declinedBy)} declined` : 'Declined'}; no slots changed hands
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChainSwapCard;
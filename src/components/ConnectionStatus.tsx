@@ -0,0 +1,31 @@
+import React from 'react';
+import { SocketConnectionStatus } from '../types';
+import { useSocketConnection } from '../contexts/SocketContext';
+
+const STATUS_STYLES: Record<SocketConnectionStatus, { label: string; dot: string; text: string }> = {
+  connected: { label: 'Live', dot: 'bg-green-500', text: 'text-gray-500' },
+  connecting: { label: 'Connecting...', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-700' },
+  reconnecting: { label: 'Reconnecting...', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-700' },
+  disconnected: { label: 'Offline', dot: 'bg-red-500', text: 'text-red-700' },
+};
+
+const ConnectionStatus: React.FC = () => {
+  const { status, reconnect } = useSocketConnection();
+  const { label, dot, text } = STATUS_STYLES[status];
+
+  return (
+    <button
+      type="button"
+      onClick={reconnect}
+      disabled={status !== 'disconnected'}
+      className={`inline-flex items-center text-xs font-medium ${text} disabled:cursor-default`}
+      title={status === 'disconnected' ? 'Live updates are paused. Click to reconnect.' : 'Live updates'}
+    >
+      <span className={`h-2 w-2 rounded-full mr-1.5 ${dot}`} />
+      {/* Keep the navbar quiet while everything is working */}
+      <span className={status === 'connected' ? 'sr-only' : ''}>{label}</span>
+    </button>
+  );
+};
+
+export default ConnectionStatus;
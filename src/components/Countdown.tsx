@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { parseISO } from 'date-fns';
+import { formatCountdown } from '../utils/swapRequests';
+
+interface CountdownProps {
+  expiresAt: string;
+  onExpire?: () => void;
+  className?: string;
+}
+
+const WARNING_THRESHOLD_MS = 60 * 60 * 1000;
+
+const Countdown: React.FC<CountdownProps> = ({ expiresAt, onExpire, className = '' }) => {
+  const deadline = parseISO(expiresAt).getTime();
+  const [remaining, setRemaining] = useState(() => deadline - Date.now());
+
+  useEffect(() => {
+    setRemaining(deadline - Date.now());
+    if (deadline <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      const next = deadline - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(interval);
+        onExpire?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const expired = remaining <= 0;
+
+  return (
+    <span
+      className={`inline-flex items-center text-xs font-medium ${
+        expired ? 'text-gray-500' : remaining < WARNING_THRESHOLD_MS ? 'text-red-600' : 'text-gray-600'
+      } ${className}`}
+    >
+      <ClockIcon className="h-4 w-4 mr-1" />
+      {expired ? 'Expired' : `Expires in ${formatCountdown(remaining)}`}
+    </span>
+  );
+};
+
+export default Countdown;
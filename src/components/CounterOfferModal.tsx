@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Event, EventStatus, SwapRequest, User } from '../types';
+import { swapsAPI } from '../utils/api';
+import { queries } from '../utils/queries';
+import { fetchQuery } from '../utils/queryCache';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { formatHours, getRequestSlots, getTotalMinutes } from '../utils/swapRequests';
+
+interface CounterOfferModalProps {
+  request: SwapRequest;
+  isIncoming: boolean;
+  onSuccess: () => void;
+  onClose: () => void;
+}
+
+const isCurrent = (current: Event[], slot: Event) => current.some(item => item._id === slot._id);
+
+const CounterOfferModal: React.FC<CounterOfferModalProps> = ({ request, isIncoming, onSuccess, onClose }) => {
+  const { requesterSlots, targetSlots } = getRequestSlots(request);
+  const otherUser = (isIncoming ? request.requesterId : request.targetUserId) as User;
+  const currentMine = isIncoming ? targetSlots : requesterSlots;
+  const currentTheirs = isIncoming ? requesterSlots : targetSlots;
+
+  // The slots in the current offer are SWAP_PENDING, so they are not in either list and are added back
+  const [myOptions, setMyOptions] = useState<Event[]>(currentMine);
+  const [theirOptions, setTheirOptions] = useState<Event[]>(currentTheirs);
+  const [selectedMine, setSelectedMine] = useState(currentMine.map(slot => slot._id));
+  const [selectedTheirs, setSelectedTheirs] = useState(currentTheirs.map(slot => slot._id));
+  const [isFetching, setIsFetching] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const { formatDate } = usePreferences();
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [slots, events] = await Promise.all([
+          fetchQuery(queries.swappableSlots.key, queries.swappableSlots.fetch),
+          fetchQuery(queries.events.key, queries.events.fetch),
+        ]);
+
+        setMyOptions([
+          ...currentMine,
+          ...events.filter(event => event.status === EventStatus.SWAPPABLE && !isCurrent(currentMine, event)),
+        ]);
+        setTheirOptions([
+          ...currentTheirs,
+          ...slots.filter(slot => (slot.userId as User).id === otherUser.id && !isCurrent(currentTheirs, slot)),
+        ]);
+      } catch (error: any) {
+        toast.error('Failed to load slots for a counter-offer');
+      } finally {
+        setIsFetching(false);
+      }
+    };
+
+    fetchOptions();
+  }, []);
+
+  const isSameSelection = (selected: string[], current: Event[]) =>
+    selected.length === current.length && current.every(slot => selected.includes(slot._id));
+  const isUnchanged = isSameSelection(selectedMine, currentMine) && isSameSelection(selectedTheirs, currentTheirs);
+  const isEmpty = selectedMine.length === 0 || selectedTheirs.length === 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isUnchanged || isEmpty) return;
+
+    const requesterSlotIds = isIncoming ? selectedTheirs : selectedMine;
+    const targetSlotIds = isIncoming ? selectedMine : selectedTheirs;
+
+    setIsLoading(true);
+
+    try {
+      const response = await swapsAPI.counterSwapRequest(request._id, {
+        requesterSlotId: requesterSlotIds[0],
+        targetSlotId: targetSlotIds[0],
+        requesterSlotIds,
+        targetSlotIds,
+      });
+
+      toast.success(response.message);
+      onSuccess();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send counter-offer');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderOptions = (
+    options: Event[],
+    current: Event[],
+    selected: string[],
+    onChange: React.Dispatch<React.SetStateAction<string[]>>
+  ) => (
+    <div className="space-y-2 max-h-72 overflow-y-auto">
+      {options.map(slot => (
+        <label
+          key={slot._id}
+          className={`flex cursor-pointer items-start rounded-lg border p-3 text-sm ${
+            selected.includes(slot._id) ? 'border-primary-600 bg-primary-50' : 'border-gray-300 bg-white hover:bg-gray-50'
+          }`}
+        >
+          <input
+            type="checkbox"
+            checked={selected.includes(slot._id)}
+            onChange={() =>
+              onChange(prev => (prev.includes(slot._id) ? prev.filter(id => id !== slot._id) : [...prev, slot._id]))
+            }
+            className="mt-0.5 mr-3 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <div>
+            <div className="font-medium text-gray-900">
+              {slot.title}
+              {isCurrent(current, slot) && <span className="ml-2 text-xs font-normal text-gray-500">(current)</span>}
+            </div>
+            <div className="text-gray-500">
+              {formatDate(slot.startTime, 'MMM d, yyyy')} • {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+            </div>
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Counter-offer to {otherUser.name}
+              </h3>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {isFetching ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-500"></div>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <h4 className="flex justify-between text-sm font-medium text-gray-900 mb-2">
+                      You give
+                      <span className="font-normal text-gray-500">
+                        {formatHours(getTotalMinutes(myOptions.filter(slot => selectedMine.includes(slot._id))))}
+                      </span>
+                    </h4>
+                    {renderOptions(myOptions, currentMine, selectedMine, setSelectedMine)}
+                  </div>
+                  <div>
+                    <h4 className="flex justify-between text-sm font-medium text-gray-900 mb-2">
+                      You get from {otherUser.name}
+                      <span className="font-normal text-gray-500">
+                        {formatHours(getTotalMinutes(theirOptions.filter(slot => selectedTheirs.includes(slot._id))))}
+                      </span>
+                    </h4>
+                    {renderOptions(theirOptions, currentTheirs, selectedTheirs, setSelectedTheirs)}
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isLoading || isUnchanged || isEmpty}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoading ? 'Sending...' : 'Send Counter-offer'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CounterOfferModal;
@@ -1,13 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
+import { parseISO } from 'date-fns';
 import toast from 'react-hot-toast';
-import { XMarkIcon } from '@heroicons/react/24/outline';
-import { Event, EventStatus, CreateEventData } from '../types';
-import { eventsAPI } from '../utils/api';
+import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import RecurrenceEditor from './RecurrenceEditor';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import { Event, EventStatus, CreateEventData, RecurrenceRule, RecurrenceScope } from '../types';
+import { offlineEventsAPI } from '../utils/outbox';
+import { queries } from '../utils/queries';
+import { fetchQuery } from '../utils/queryCache';
+import { expandZonedRecurrence } from '../utils/recurrence';
+import { findConflicts } from '../utils/calendar';
+import { fromZonedTime, getTimeZoneAbbreviation, toZonedTime } from '../utils/timezone';
+import { usePreferences } from '../contexts/PreferencesContext';
 
 interface EventModalProps {
   event?: Event | null;
-  onSave: (event: Event) => void;
+  initialRange?: { start: Date; end: Date } | null;
+  existingEvents?: Event[];
+  onSave: (event: Event, seriesChanged?: boolean) => void;
   onClose: () => void;
 }
 
@@ -20,9 +31,14 @@ interface EventForm {
   status: EventStatus;
 }
 
-const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
+const EventModal: React.FC<EventModalProps> = ({ event, initialRange, existingEvents = [], onSave, onClose }) => {
   const [isLoading, setIsLoading] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [pendingData, setPendingData] = useState<CreateEventData | null>(null);
+  const [conflicts, setConflicts] = useState<Event[]>([]);
   const isEditing = !!event;
+  const isSeries = !!event?.seriesId;
+  const { timeZone, formatDate } = usePreferences();
 
   const {
     register,
@@ -33,8 +49,22 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
   } = useForm<EventForm>();
 
   const startDate = watch('startDate');
-  //const startTime = watch('startTime');
+  const startTime = watch('startTime');
   const endDate = watch('endDate');
+  const endTime = watch('endTime');
+
+  // A changed range needs a fresh conflict check
+  useEffect(() => {
+    setConflicts([]);
+  }, [startDate, startTime, endDate, endTime, recurrence]);
+
+  // The form's wall-clock start as a real instant; time zone conversion throws on an invalid date
+  const wallClockStart = startDate && startTime ? new Date(`${startDate}T${startTime}`) : null;
+  const hasRecurrenceStart = !!wallClockStart && !isNaN(wallClockStart.getTime());
+  const recurrenceStart = hasRecurrenceStart ? fromZonedTime(wallClockStart, timeZone) : new Date();
+  const occurrenceCount = recurrence && hasRecurrenceStart
+    ? expandZonedRecurrence(recurrenceStart, recurrenceStart, recurrence, timeZone).length
+    : 1;
 
   useEffect(() => {
     if (event) {
@@ -42,23 +72,24 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
       const endDateTime = new Date(event.endTime);
       
       setValue('title', event.title);
-      setValue('startDate', startDateTime.toISOString().split('T')[0]);
-      setValue('startTime', startDateTime.toTimeString().slice(0, 5));
-      setValue('endDate', endDateTime.toISOString().split('T')[0]);
-      setValue('endTime', endDateTime.toTimeString().slice(0, 5));
+      setValue('startDate', formatDate(startDateTime, 'yyyy-MM-dd'));
+      setValue('startTime', formatDate(startDateTime, 'HH:mm'));
+      setValue('endDate', formatDate(endDateTime, 'yyyy-MM-dd'));
+      setValue('endTime', formatDate(endDateTime, 'HH:mm'));
       setValue('status', event.status);
+      setRecurrence(event.recurrence ?? null);
     } else {
-      // Set default values for new event
-      const now = new Date();
-      const oneHourLater = new Date(now.getTime() + 60 * 60 * 1000);
+      // Set default values for new event, using the selected calendar range if any
+      const start = initialRange?.start ?? new Date();
+      const end = initialRange?.end ?? new Date(start.getTime() + 60 * 60 * 1000);
       
-      setValue('startDate', now.toISOString().split('T')[0]);
-      setValue('startTime', now.toTimeString().slice(0, 5));
-      setValue('endDate', oneHourLater.toISOString().split('T')[0]);
-      setValue('endTime', oneHourLater.toTimeString().slice(0, 5));
+      setValue('startDate', formatDate(start, 'yyyy-MM-dd'));
+      setValue('startTime', formatDate(start, 'HH:mm'));
+      setValue('endDate', formatDate(end, 'yyyy-MM-dd'));
+      setValue('endTime', formatDate(end, 'HH:mm'));
       setValue('status', EventStatus.BUSY);
     }
-  }, [event, setValue]);
+  }, [event, initialRange, setValue, formatDate]);
 
   // Auto-update end date when start date changes
   useEffect(() => {
@@ -67,35 +98,29 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
     }
   }, [startDate, endDate, setValue]);
 
-  const onSubmit = async (data: EventForm) => {
+  const saveEvent = async (eventData: CreateEventData, scope?: RecurrenceScope) => {
     setIsLoading(true);
     
     try {
-      const startDateTime = new Date(`${data.startDate}T${data.startTime}`);
-      const endDateTime = new Date(`${data.endDate}T${data.endTime}`);
-
-      // Validation
-      if (endDateTime <= startDateTime) {
-        toast.error('End time must be after start time');
-        setIsLoading(false);
-        return;
-      }
-
-      const eventData: CreateEventData = {
-        title: data.title,
-        startTime: startDateTime.toISOString(),
-        endTime: endDateTime.toISOString(),
-        status: data.status,
-      };
-
       let response;
-      if (isEditing) {
-        response = await eventsAPI.updateEvent(event!._id, eventData);
+      let seriesChanged = !!eventData.recurrence;
+      if (isEditing && scope && scope !== 'this') {
+        // Status is per occurrence, so only this occurrence's status may change
+        response = await offlineEventsAPI.updateEvent(event!._id, { ...eventData, status: undefined }, scope);
+        if (eventData.status && eventData.status !== event!.status) {
+          response = await offlineEventsAPI.updateEventStatus(event!._id, eventData.status);
+        }
+        seriesChanged = true;
+      } else if (isEditing) {
+        const occurrenceData = scope === 'this' ? { ...eventData, recurrence: undefined } : eventData;
+        response = await offlineEventsAPI.updateEvent(event!._id, occurrenceData, scope);
+        seriesChanged = !!occurrenceData.recurrence;
       } else {
-        response = await eventsAPI.createEvent(eventData);
+        response = await offlineEventsAPI.createEvent(eventData);
       }
 
-      onSave(response.event);
+      // A queued series change cannot be expanded locally, so only the edited occurrence updates until it syncs
+      onSave(response.event, seriesChanged && !response.queued);
       toast.success(response.message);
     } catch (error: any) {
       toast.error(error.response?.data?.error || `Failed to ${isEditing ? 'update' : 'create'} event`);
@@ -104,6 +129,76 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
     }
   };
 
+  // Checks the proposed occurrences against both the loaded events and the latest ones from the server
+  const checkConflicts = async (start: Date, end: Date): Promise<Event[]> => {
+    let candidates = existingEvents;
+    try {
+      const fetched = await fetchQuery(queries.events.key, queries.events.fetch);
+      const fetchedIds = new Set(fetched.map(e => e._id));
+      candidates = [...fetched, ...existingEvents.filter(e => !fetchedIds.has(e._id))];
+    } catch (error) {
+      // Fall back to the events that are already loaded
+    }
+    if (isSeries) {
+      // Other occurrences of the series being edited move along with it
+      candidates = candidates.filter(e => e.seriesId !== event!.seriesId);
+    }
+
+    const occurrences = recurrence ? expandZonedRecurrence(start, end, recurrence, timeZone) : [{ start, end }];
+    const found = new Map<string, Event>();
+    occurrences.forEach(occurrence => {
+      findConflicts(occurrence.start, occurrence.end, candidates, event?._id).forEach(conflict => {
+        found.set(conflict._id, conflict);
+      });
+    });
+
+    return [...found.values()].sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+  };
+
+  const onSubmit = async (data: EventForm, ignoreConflicts = false) => {
+    // Form values are wall-clock times in the user's preferred time zone
+    const startDateTime = fromZonedTime(new Date(`${data.startDate}T${data.startTime}`), timeZone);
+    const endDateTime = fromZonedTime(new Date(`${data.endDate}T${data.endTime}`), timeZone);
+
+    // Validation
+    if (endDateTime <= startDateTime) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    if (recurrence && occurrenceCount === 0) {
+      toast.error('The repeat settings do not produce any events');
+      return;
+    }
+
+    const eventData: CreateEventData = {
+      title: data.title,
+      startTime: startDateTime.toISOString(),
+      endTime: endDateTime.toISOString(),
+      status: data.status,
+      recurrence: recurrence ?? undefined,
+    };
+
+    if (!ignoreConflicts) {
+      setIsLoading(true);
+      const found = await checkConflicts(startDateTime, endDateTime);
+      setIsLoading(false);
+      if (found.length > 0) {
+        setConflicts(found);
+        return;
+      }
+    }
+    setConflicts([]);
+
+    // Ask how far the change should reach before touching a recurring series
+    if (isSeries) {
+      setPendingData(eventData);
+      return;
+    }
+
+    await saveEvent(eventData);
+  };
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -127,7 +222,7 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
               </button>
             </div>
 
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <form onSubmit={handleSubmit((data) => onSubmit(data))} className="space-y-4">
               <div>
                 <label htmlFor="title" className="block text-sm font-medium text-gray-700">
                   Event Title
@@ -210,6 +305,10 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
                 </div>
               </div>
 
+              <p className="-mt-2 text-xs text-gray-500">
+                Times are in {timeZone.replace(/_/g, ' ')} ({getTimeZoneAbbreviation(timeZone)})
+              </p>
+
               <div>
                 <label htmlFor="status" className="block text-sm font-medium text-gray-700">
                   Status
@@ -224,6 +323,46 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
                 </select>
               </div>
 
+              <RecurrenceEditor
+                value={recurrence}
+                onChange={setRecurrence}
+                startDate={toZonedTime(recurrenceStart, timeZone)}
+                occurrenceCount={occurrenceCount}
+              />
+              {isSeries && (
+                <p className="text-xs text-gray-500">
+                  Repeat changes only apply when you update this and following events or the whole series.
+                </p>
+              )}
+
+              {conflicts.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                  <div className="flex">
+                    <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+                    <div className="ml-3">
+                      <h4 className="text-sm font-medium text-yellow-800">
+                        This overlaps {conflicts.length} of your events
+                      </h4>
+                      <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                        {conflicts.map(conflict => (
+                          <li key={conflict._id}>
+                            <span className="font-medium">{conflict.title}</span>{' '}
+                            {formatDate(conflict.startTime, 'MMM d, h:mm a')} - {formatDate(conflict.endTime, 'h:mm a')}
+                          </li>
+                        ))}
+                      </ul>
+                      <button
+                        type="button"
+                        onClick={handleSubmit((data) => onSubmit(data, true))}
+                        className="mt-3 inline-flex items-center px-3 py-1 border border-yellow-300 text-xs font-medium rounded text-yellow-800 bg-yellow-100 hover:bg-yellow-200"
+                      >
+                        Save anyway
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
                 <button
                   type="submit"
@@ -244,6 +383,18 @@ const EventModal: React.FC<EventModalProps> = ({ event, onSave, onClose }) => {
           </div>
         </div>
       </div>
+
+      {pendingData && (
+        <RecurrenceScopeDialog
+          action="edit"
+          onSelect={(scope) => {
+            const data = pendingData;
+            setPendingData(null);
+            saveEvent(data, scope);
+          }}
+          onClose={() => setPendingData(null)}
+        />
+      )}
     </div>
   );
 };
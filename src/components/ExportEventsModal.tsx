@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import toast from 'react-hot-toast';
+import { XMarkIcon, ArrowDownTrayIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import { CalendarFeed, Event, EventStatus } from '../types';
+import { calendarFeedAPI } from '../utils/api';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { CALENDAR_FEED_PATH, buildICalendar } from '../utils/ical';
+import { fromZonedTime } from '../utils/timezone';
+
+interface ExportEventsModalProps {
+  events: Event[];
+  onClose: () => void;
+}
+
+const STATUS_OPTIONS = [EventStatus.BUSY, EventStatus.SWAPPABLE, EventStatus.SWAP_PENDING];
+
+const ExportEventsModal: React.FC<ExportEventsModalProps> = ({ events, onClose }) => {
+  const { timeZone } = usePreferences();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [statuses, setStatuses] = useState<EventStatus[]>(STATUS_OPTIONS);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isFeedLoading, setIsFeedLoading] = useState(true);
+  const [isFeedUpdating, setIsFeedUpdating] = useState(false);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await calendarFeedAPI.getFeed();
+        setFeed(response.feed);
+      } catch (error: any) {
+        toast.error(error.response?.data?.error || 'Failed to load calendar subscription');
+      } finally {
+        setIsFeedLoading(false);
+      }
+    };
+    fetchFeed();
+  }, []);
+
+  const feedUrl = feed ? `${window.location.origin}${CALENDAR_FEED_PATH}?token=${encodeURIComponent(feed.token)}` : '';
+
+  const filteredEvents = events.filter(event => {
+    if (!statuses.includes(event.status)) return false;
+    // The range is made of calendar days in the user's preferred time zone
+    if (fromDate && parseISO(event.endTime) <= fromZonedTime(startOfDay(parseISO(fromDate)), timeZone)) return false;
+    if (toDate && parseISO(event.startTime) > fromZonedTime(endOfDay(parseISO(toDate)), timeZone)) return false;
+    return true;
+  });
+
+  const toggleStatus = (status: EventStatus) => {
+    setStatuses(prev => prev.includes(status) ? prev.filter(item => item !== status) : [...prev, status]);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([buildICalendar(filteredEvents)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `slotswapper-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${filteredEvents.length} ${filteredEvents.length === 1 ? 'event' : 'events'}`);
+  };
+
+  const handleCreateFeed = async () => {
+    if (feed && !confirm('Calendar apps subscribed with the current link will stop updating. Create a new link?')) return;
+
+    setIsFeedUpdating(true);
+    try {
+      const response = await calendarFeedAPI.createFeed();
+      setFeed(response.feed);
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create subscription link');
+    } finally {
+      setIsFeedUpdating(false);
+    }
+  };
+
+  const handleRevokeFeed = async () => {
+    if (!confirm('Calendar apps subscribed with this link will stop updating. Turn off the link?')) return;
+
+    setIsFeedUpdating(true);
+    try {
+      const response = await calendarFeedAPI.revokeFeed();
+      setFeed(null);
+      toast.success(response.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to turn off subscription link');
+    } finally {
+      setIsFeedUpdating(false);
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Feed URL copied');
+    } catch (error) {
+      toast.error('Failed to copy feed URL');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Export Calendar
+              </h3>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="exportFrom" className="block text-sm font-medium text-gray-700">
+                    From
+                  </label>
+                  <input
+                    id="exportFrom"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="exportTo" className="block text-sm font-medium text-gray-700">
+                    To
+                  </label>
+                  <input
+                    id="exportTo"
+                    type="date"
+                    value={toDate}
+                    min={fromDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Status</span>
+                <div className="mt-2 flex space-x-4">
+                  {STATUS_OPTIONS.map(status => (
+                    <label key={status} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={statuses.includes(status)}
+                        onChange={() => toggleStatus(status)}
+                        className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {status.replace('_', ' ')}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={handleDownload}
+                disabled={filteredEvents.length === 0}
+                className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-primary-600 text-sm font-medium text-white hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                Download {filteredEvents.length} {filteredEvents.length === 1 ? 'event' : 'events'} (.ics)
+              </button>
+
+              <div className="border-t pt-4">
+                <h4 className="text-sm font-medium text-gray-900">Subscribe from another calendar app</h4>
+                <p className="mt-1 text-xs text-gray-500">
+                  Calendar apps that subscribe to this URL stay in sync with all of your events.
+                  Anyone with the link can read your calendar, so keep it private. Reset it if it gets out.
+                </p>
+                {isFeedLoading ? (
+                  <div className="mt-2 h-8 bg-gray-100 rounded-md animate-pulse" />
+                ) : !feed ? (
+                  <button
+                    type="button"
+                    onClick={handleCreateFeed}
+                    disabled={isFeedUpdating}
+                    className="mt-2 px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Create subscription link
+                  </button>
+                ) : (
+                  <>
+                    <div className="mt-2 flex">
+                      <input
+                        type="text"
+                        readOnly
+                        value={feedUrl}
+                        onFocus={(e) => e.target.select()}
+                        className="flex-1 border-gray-300 rounded-l-md shadow-sm text-xs text-gray-600 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleCopyFeedUrl}
+                        className="-ml-px inline-flex items-center px-3 border border-gray-300 rounded-r-md bg-gray-50 text-sm text-gray-700 hover:bg-gray-100"
+                      >
+                        <ClipboardDocumentIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="mt-2 flex space-x-4 text-xs">
+                      <button
+                        type="button"
+                        onClick={handleCreateFeed}
+                        disabled={isFeedUpdating}
+                        className="font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                      >
+                        Reset link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleRevokeFeed}
+                        disabled={isFeedUpdating}
+                        className="font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        Turn off
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportEventsModal;
@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { areIntervalsOverlapping, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { XMarkIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { Event, EventStatus } from '../types';
+import { ICalEvent, getEventIdFromUid, parseICalendar } from '../utils/ical';
+import { offlineEventsAPI } from '../utils/outbox';
+import { queryKeys } from '../utils/queries';
+import { invalidateQueries, setQueryData } from '../utils/queryCache';
+import { describeRecurrence, expandZonedRecurrence } from '../utils/recurrence';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface ImportEventsModalProps {
+  existingEvents: Event[];
+  onClose: () => void;
+}
+
+interface ImportRow {
+  item: ICalEvent;
+  // The event this entry was originally exported from, which is updated instead of duplicated
+  existing?: Event;
+  duplicate: boolean;
+  overlaps: Event[];
+  selected: boolean;
+  result?: 'success' | 'error';
+  error?: string;
+}
+
+// Shape shared by the create and update responses, whether sent or queued
+interface SavedEvent {
+  event: Event;
+  events?: Event[];
+  queued?: boolean;
+}
+
+const isSameSlot = (item: ICalEvent, event: Event) =>
+  item.title.trim().toLowerCase() === event.title.trim().toLowerCase() &&
+  item.start.getTime() === parseISO(event.startTime).getTime() &&
+  item.end.getTime() === parseISO(event.endTime).getTime();
+
+const buildRow = (item: ICalEvent, existingEvents: Event[], timeZone: string): ImportRow => {
+  const sourceId = getEventIdFromUid(item.uid);
+  const existing = sourceId ? existingEvents.find(event => event._id === sourceId) : undefined;
+  const duplicate = existing ? isSameSlot(item, existing) : existingEvents.some(event => isSameSlot(item, event));
+  const occurrences = item.recurrence
+    ? expandZonedRecurrence(item.start, item.end, item.recurrence, timeZone)
+    : [{ start: item.start, end: item.end }];
+
+  const overlaps = duplicate
+    ? []
+    : existingEvents.filter(event => {
+        if (event._id === existing?._id) return false;
+        const range = { start: parseISO(event.startTime), end: parseISO(event.endTime) };
+        return occurrences.some(occurrence => areIntervalsOverlapping(occurrence, range));
+      });
+
+  return { item, existing, duplicate, overlaps, selected: !duplicate };
+};
+
+const ImportEventsModal: React.FC<ImportEventsModalProps> = ({ existingEvents, onClose }) => {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const { timeZone, formatDate } = usePreferences();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { events, skipped } = parseICalendar(await file.text(), timeZone);
+      if (events.length === 0) {
+        toast.error('No events found in this file');
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(events.map(item => buildRow(item, existingEvents, timeZone)));
+      if (skipped > 0) {
+        toast(`${skipped} cancelled or modified occurrences were skipped`, { icon: 'ℹ️' });
+      }
+    } catch (error) {
+      toast.error('Could not read this calendar file');
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, selected: !row.selected } : row)));
+  };
+
+  const toggleAll = (selected: boolean) => {
+    setRows(prev => prev.map(row => (row.result === 'success' ? row : { ...row, selected })));
+  };
+
+  const handleImport = async () => {
+    const pending = rows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.selected && row.result !== 'success');
+    if (pending.length === 0) return;
+
+    setIsImporting(true);
+
+    const results = await Promise.allSettled(
+      pending.map(({ row }) =>
+        row.existing
+          ? offlineEventsAPI.updateEvent(row.existing._id, {
+              title: row.item.title,
+              startTime: row.item.start.toISOString(),
+              endTime: row.item.end.toISOString(),
+            })
+          : offlineEventsAPI.createEvent({
+              title: row.item.title,
+              startTime: row.item.start.toISOString(),
+              endTime: row.item.end.toISOString(),
+              status: EventStatus.BUSY,
+              recurrence: row.item.recurrence,
+            })
+      )
+    );
+
+    const outcomes = new Map<number, Pick<ImportRow, 'result' | 'error'>>();
+    results.forEach((result, i) => {
+      outcomes.set(
+        pending[i].index,
+        result.status === 'fulfilled'
+          ? { result: 'success' }
+          : {
+              result: 'error',
+              error: result.reason?.response?.data?.error || `Failed to ${pending[i].row.existing ? 'update' : 'create'} event`,
+            }
+      );
+    });
+
+    setRows(prev => prev.map((row, index) => {
+      const outcome = outcomes.get(index);
+      return outcome ? { ...row, ...outcome, selected: outcome.result === 'error' } : row;
+    }));
+    setIsImporting(false);
+
+    const saved: { row: ImportRow; response: SavedEvent }[] = results.flatMap((result, i) =>
+      result.status === 'fulfilled' ? [{ row: pending[i].row, response: result.value }] : []
+    );
+    setQueryData<Event[]>(queryKeys.events, prev => saved.reduce<Event[]>((events, { row, response }) => {
+      if (row.existing) {
+        return events.map(event => (event._id === row.existing!._id ? response.event : event));
+      }
+      // A created series comes back with all of its occurrences
+      const created = response.events ?? [response.event];
+      return [...events, ...created];
+    }, prev ?? []));
+    // Queued imports only exist locally, so a refetch would drop them until they sync
+    if (saved.length > 0 && saved.every(({ response }) => !response.queued)) {
+      invalidateQueries(queryKeys.events);
+    }
+
+    const succeeded = saved.length;
+    const failed = results.length - succeeded;
+    if (failed === 0) {
+      toast.success(`Imported ${succeeded} ${succeeded === 1 ? 'event' : 'events'}`);
+    } else {
+      toast.error(`Imported ${succeeded} of ${results.length} events; ${failed} failed`);
+    }
+  };
+
+  const selectedCount = rows.filter(row => row.selected && row.result !== 'success').length;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Import Events
+              </h3>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-primary-500">
+              <ArrowUpTrayIcon className="h-8 w-8 text-gray-400" />
+              <span className="mt-2 text-sm text-gray-600">
+                {fileName || 'Choose an iCalendar (.ics) file'}
+              </span>
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleFileChange}
+                className="sr-only"
+              />
+            </label>
+
+            {rows.length > 0 && (
+              <div className="mt-6 max-h-96 overflow-y-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-300">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={rows.every(row => row.selected || row.result === 'success')}
+                          onChange={(e) => toggleAll(e.target.checked)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Event
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Date & Time
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Checks
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Result
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map((row, index) => (
+                      <tr key={`${row.item.uid ?? row.item.title}-${index}`}>
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={row.selected}
+                            disabled={row.result === 'success'}
+                            onChange={() => toggleRow(index)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="text-sm font-medium text-gray-900">{row.item.title}</div>
+                          {row.item.recurrence && (
+                            <div className="text-xs text-gray-500">{describeRecurrence(row.item.recurrence)}</div>
+                          )}
+                          {row.item.warnings.map(warning => (
+                            <div key={warning} className="text-xs text-yellow-700">{warning}</div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">
+                            {/* All-day events are calendar days, not instants, so they are not shifted */}
+                            {formatDate(row.item.start, 'MMM d, yyyy')}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {row.item.allDay
+                              ? 'All day'
+                              : `${formatDate(row.item.start, 'h:mm a')} - ${formatDate(row.item.end, 'h:mm a')}`}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 space-y-1">
+                          {row.duplicate && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              {row.existing ? 'Unchanged' : 'Duplicate'}
+                            </span>
+                          )}
+                          {row.existing && !row.duplicate && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              Updates existing
+                            </span>
+                          )}
+                          {row.overlaps.length > 0 && (
+                            <span
+                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                              title={row.overlaps.map(event => event.title).join(', ')}
+                            >
+                              Overlaps {row.overlaps.length}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {row.result === 'success' && <span className="text-green-700">{row.existing ? 'Updated' : 'Imported'}</span>}
+                          {row.result === 'error' && <span className="text-red-600">{row.error}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              >
+                Close
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || selectedCount === 0}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : `Import ${selectedCount} ${selectedCount === 1 ? 'event' : 'events'}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportEventsModal;
\ No newline at end of file
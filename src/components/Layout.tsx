@@ -1,12 +1,18 @@
 import React from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import NotificationBell from './NotificationBell';
+import ConnectionStatus from './ConnectionStatus';
+import SyncStatus from './SyncStatus';
+import { useOffline } from '../contexts/OfflineContext';
 import { 
   CalendarIcon, 
   SwatchIcon, 
   BellIcon, 
   ArrowRightOnRectangleIcon,
-  UserIcon 
+  UserIcon,
+  Cog6ToothIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 
 interface LayoutProps {
@@ -17,8 +23,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, logout } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
+  const { pendingEntries, conflicts, discardAllChanges } = useOffline();
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    const unsynced = pendingEntries.length + conflicts.length;
+    if (unsynced > 0 && !window.confirm(`You have ${unsynced} unsynced change${unsynced === 1 ? '' : 's'} that will be lost. Log out anyway?`)) {
+      return;
+    }
+    try {
+      await discardAllChanges();
+    } catch (error) {
+      console.error('Error clearing offline data:', error);
+    }
     logout();
     navigate('/login');
   };
@@ -27,6 +43,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { path: '/dashboard', label: 'My Calendar', icon: CalendarIcon },
     { path: '/marketplace', label: 'Marketplace', icon: SwatchIcon },
     { path: '/requests', label: 'Requests', icon: BellIcon },
+    { path: '/history', label: 'History', icon: ClockIcon },
   ];
 
   return (
@@ -61,10 +78,22 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <SyncStatus />
+              <ConnectionStatus />
+              <NotificationBell />
               <div className="flex items-center space-x-2">
                 <UserIcon className="h-5 w-5 text-gray-400" />
                 <span className="text-sm font-medium text-gray-700">{user?.name}</span>
               </div>
+              <Link
+                to="/settings"
+                className={`${
+                  location.pathname === '/settings' ? 'text-primary-600' : 'text-gray-400 hover:text-gray-600'
+                }`}
+                title="Settings"
+              >
+                <Cog6ToothIcon className="h-5 w-5" />
+              </Link>
               <button
                 onClick={handleLogout}
                 className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-gray-500 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
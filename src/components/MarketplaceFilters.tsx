@@ -0,0 +1,198 @@
+import React from 'react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { User } from '../types';
+import { WEEKDAY_LABELS } from '../utils/recurrence';
+import {
+  SORT_OPTIONS,
+  SlotFilters,
+  SlotSort,
+  TIME_OF_DAY_OPTIONS,
+  hasActiveFilters,
+} from '../utils/slotFilters';
+
+interface MarketplaceFiltersProps {
+  filters: SlotFilters;
+  owners: User[];
+  onChange: (filters: SlotFilters) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+const MarketplaceFilters: React.FC<MarketplaceFiltersProps> = ({ filters, owners, onChange }) => {
+  const update = (changes: Partial<SlotFilters>) => onChange({ ...filters, ...changes });
+
+  const parseMinutes = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  return (
+    <div className="bg-white shadow-sm border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <label htmlFor="slotSearch" className="block text-sm font-medium text-gray-700">
+            Keyword
+          </label>
+          <div className="relative">
+            <MagnifyingGlassIcon className="pointer-events-none absolute left-2 top-1/2 mt-0.5 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              id="slotSearch"
+              type="search"
+              value={filters.q ?? ''}
+              onChange={(e) => update({ q: e.target.value || undefined })}
+              placeholder="Search titles"
+              className={`${inputClassName} pl-8`}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="slotOwner" className="block text-sm font-medium text-gray-700">
+            Owner
+          </label>
+          <select
+            id="slotOwner"
+            value={filters.owner ?? ''}
+            onChange={(e) => update({ owner: e.target.value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">Anyone</option>
+            {owners.map(owner => (
+              <option key={owner.id} value={owner.id}>{owner.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="slotFrom" className="block text-sm font-medium text-gray-700">
+              From
+            </label>
+            <input
+              id="slotFrom"
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => update({ from: e.target.value || undefined })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="slotTo" className="block text-sm font-medium text-gray-700">
+              To
+            </label>
+            <input
+              id="slotTo"
+              type="date"
+              value={filters.to ?? ''}
+              min={filters.from}
+              onChange={(e) => update({ to: e.target.value || undefined })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="slotMinDuration" className="block text-sm font-medium text-gray-700">
+              Min (min)
+            </label>
+            <input
+              id="slotMinDuration"
+              type="number"
+              min={0}
+              step={15}
+              value={filters.minDuration ?? ''}
+              onChange={(e) => update({ minDuration: parseMinutes(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="slotMaxDuration" className="block text-sm font-medium text-gray-700">
+              Max (min)
+            </label>
+            <input
+              id="slotMaxDuration"
+              type="number"
+              min={0}
+              step={15}
+              value={filters.maxDuration ?? ''}
+              onChange={(e) => update({ maxDuration: parseMinutes(e.target.value) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <span className="block text-sm font-medium text-gray-700">Weekday</span>
+          <div className="mt-1 flex space-x-1">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => update({ weekdays: toggle(filters.weekdays, weekday) })}
+                className={`h-8 w-10 rounded-md text-xs font-medium border ${
+                  filters.weekdays.includes(weekday)
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700">Time of day</span>
+          <div className="mt-1 flex space-x-1">
+            {TIME_OF_DAY_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => update({ timeOfDay: toggle(filters.timeOfDay, option.value) })}
+                className={`h-8 px-3 rounded-md text-xs font-medium border ${
+                  filters.timeOfDay.includes(option.value)
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="slotSort" className="block text-sm font-medium text-gray-700">
+            Sort by
+          </label>
+          <select
+            id="slotSort"
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as SlotSort })}
+            className={inputClassName}
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ timeOfDay: [], weekdays: [], sort: filters.sort })}
+            className="h-9 text-sm font-medium text-primary-600 hover:text-primary-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarketplaceFilters;
\ No newline at end of file
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { InboxIcon } from '@heroicons/react/24/outline';
+import { AppNotification } from '../types';
+import { useNotifications } from '../contexts/NotificationsContext';
+
+const getNotificationLink = (notification: AppNotification): string => {
+  if (notification.swapRequestId) return `/requests?request=${notification.swapRequestId}`;
+  if (notification.chainSwapId) return '/requests?tab=chains';
+  if (notification.eventId) return `/dashboard?event=${notification.eventId}`;
+  return '/requests';
+};
+
+const NotificationBell: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    markRead(notification._id);
+    setIsOpen(false);
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="relative text-gray-400 hover:text-gray-600"
+        title="Notifications"
+      >
+        <InboxIcon className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-medium flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-40 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="text-xs font-medium text-primary-600 hover:text-primary-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification._id}>
+                  <div className={`flex items-start px-4 py-3 ${notification.read ? 'bg-white' : 'bg-primary-50'}`}>
+                    <button
+                      onClick={() => handleOpenNotification(notification)}
+                      className="flex-1 text-left"
+                    >
+                      <p className={`text-sm ${notification.read ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                        {notification.message}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    </button>
+                    {!notification.read && (
+                      <button
+                        onClick={() => markRead(notification._id)}
+                        className="ml-2 mt-1 h-2.5 w-2.5 flex-shrink-0 rounded-full bg-primary-600 hover:bg-primary-700"
+                        title="Mark as read"
+                      />
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
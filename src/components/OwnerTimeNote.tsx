@@ -0,0 +1,31 @@
+import React from 'react';
+import { User } from '../types';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '../utils/timezone';
+
+interface OwnerTimeNoteProps {
+  startTime: string;
+  endTime: string;
+  owner?: User | null;
+  className?: string;
+}
+
+// Shows a slot in its owner's time zone when that differs from the viewer's
+const OwnerTimeNote: React.FC<OwnerTimeNoteProps> = ({ startTime, endTime, owner, className = 'text-xs text-gray-500' }) => {
+  const { timeZone, formatDate } = usePreferences();
+
+  if (!owner?.timeZone || owner.timeZone === timeZone) return null;
+
+  const ownerStart = formatInTimeZone(startTime, owner.timeZone, 'EEE, MMM d, h:mm a');
+  // Zones with different names can still share the same clock
+  if (ownerStart === formatDate(startTime, 'EEE, MMM d, h:mm a')) return null;
+
+  return (
+    <p className={className}>
+      {owner.name}'s time: {ownerStart} - {formatInTimeZone(endTime, owner.timeZone, 'h:mm a')}{' '}
+      {getTimeZoneAbbreviation(owner.timeZone, new Date(startTime))}
+    </p>
+  );
+};
+
+export default OwnerTimeNote;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { WEEKDAY_LABELS, describeRecurrence } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: Date;
+  occurrenceCount: number;
+}
+
+const inputClassName =
+  'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, startDate, occurrenceCount }) => {
+  const [exceptionInput, setExceptionInput] = useState('');
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      byWeekday: frequency === RecurrenceFrequency.WEEKLY ? [startDate.getDay()] : undefined,
+      count: value?.until ? undefined : value?.count ?? 10,
+      until: value?.until,
+      exceptions: value?.exceptions,
+    });
+  };
+
+  if (!value) {
+    return (
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Repeat</label>
+        <select value="" onChange={(e) => handleFrequencyChange(e.target.value)} className={inputClassName}>
+          <option value="">Does not repeat</option>
+          <option value={RecurrenceFrequency.DAILY}>Daily</option>
+          <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+        </select>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...value, ...changes });
+
+  const toggleWeekday = (weekday: number) => {
+    const current = value.byWeekday ?? [];
+    const next = current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday];
+    // A weekly rule needs at least one weekday
+    if (next.length > 0) {
+      update({ byWeekday: next });
+    }
+  };
+
+  const addException = () => {
+    if (!exceptionInput || value.exceptions?.includes(exceptionInput)) return;
+    update({ exceptions: [...(value.exceptions ?? []), exceptionInput].sort() });
+    setExceptionInput('');
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 p-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Repeat</label>
+          <select value={value.frequency} onChange={(e) => handleFrequencyChange(e.target.value)} className={inputClassName}>
+            <option value="">Does not repeat</option>
+            <option value={RecurrenceFrequency.DAILY}>Daily</option>
+            <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">
+            Every ({value.frequency === RecurrenceFrequency.DAILY ? 'days' : 'weeks'})
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {value.frequency === RecurrenceFrequency.WEEKLY && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700">On</label>
+          <div className="mt-1 flex space-x-1">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={`h-8 w-10 rounded-md text-xs font-medium border ${
+                  value.byWeekday?.includes(weekday)
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Ends</label>
+        <div className="mt-1 grid grid-cols-2 gap-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={!!value.count}
+              onChange={() => update({ count: 10, until: undefined })}
+              className="text-primary-600 focus:ring-primary-500"
+            />
+            <span>After</span>
+            <input
+              type="number"
+              min={1}
+              value={value.count ?? ''}
+              disabled={!value.count}
+              onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:opacity-50"
+            />
+            <span>times</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={!value.count}
+              onChange={() => update({ count: undefined, until: value.until ?? format(startDate, 'yyyy-MM-dd') })}
+              className="text-primary-600 focus:ring-primary-500"
+            />
+            <span>On</span>
+            <input
+              type="date"
+              value={value.until ?? ''}
+              disabled={!!value.count}
+              min={format(startDate, 'yyyy-MM-dd')}
+              onChange={(e) => update({ until: e.target.value })}
+              className="border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:opacity-50"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Skip dates</label>
+        <div className="mt-1 flex space-x-2">
+          <input
+            type="date"
+            value={exceptionInput}
+            onChange={(e) => setExceptionInput(e.target.value)}
+            className="border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          />
+          <button
+            type="button"
+            onClick={addException}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Add
+          </button>
+        </div>
+        {!!value.exceptions?.length && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {value.exceptions.map(exception => (
+              <span
+                key={exception}
+                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
+              >
+                {format(parseISO(exception), 'MMM d, yyyy')}
+                <button
+                  type="button"
+                  onClick={() => update({ exceptions: value.exceptions?.filter(item => item !== exception) })}
+                  className="ml-1 text-gray-400 hover:text-gray-600"
+                >
+                  <XMarkIcon className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {describeRecurrence(value)} — {occurrenceCount} {occurrenceCount === 1 ? 'event' : 'events'}
+      </p>
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
\ No newline at end of file
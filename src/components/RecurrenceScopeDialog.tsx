@@ -0,0 +1,57 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { RecurrenceScope } from '../types';
+
+interface RecurrenceScopeDialogProps {
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'This event' },
+  { scope: 'following', label: 'This and following events' },
+  { scope: 'all', label: 'All events in the series' },
+];
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({ action, onSelect, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <div className="relative bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">
+              {action === 'edit' ? 'Edit recurring event' : 'Delete recurring event'}
+            </h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {SCOPE_OPTIONS.map(option => (
+              <button
+                key={option.scope}
+                type="button"
+                onClick={() => onSelect(option.scope)}
+                className={`w-full px-4 py-2 border rounded-md text-sm font-medium text-left ${
+                  action === 'delete'
+                    ? 'border-red-200 text-red-700 hover:bg-red-50'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeDialog;
\ No newline at end of file
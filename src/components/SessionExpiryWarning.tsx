@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import Countdown from './Countdown';
+import { useAuth } from '../contexts/AuthContext';
+
+const SessionExpiryWarning: React.FC = () => {
+  const { sessionEndsAt, extendSession, logout } = useAuth();
+  const [isExtending, setIsExtending] = useState(false);
+
+  if (!sessionEndsAt) return null;
+
+  const handleExtend = async () => {
+    setIsExtending(true);
+    const extended = await extendSession();
+    setIsExtending(false);
+    if (extended) {
+      toast.success('You are still signed in');
+    } else {
+      toast.error('Could not renew your session. Save your work and sign in again.');
+    }
+  };
+
+  return (
+    <div className="fixed top-4 inset-x-4 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-96 z-50 bg-white shadow-lg rounded-lg border border-yellow-200 p-4" role="alert">
+      <div className="flex items-start">
+        <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 mt-0.5" />
+        <div className="ml-3 flex-1">
+          <p className="text-sm font-medium text-gray-900">Your session is about to end</p>
+          <p className="mt-1 text-sm text-gray-500">
+            Save anything you are working on. You will be brought back here after signing in again.
+          </p>
+          <Countdown expiresAt={sessionEndsAt} className="mt-2" />
+          <div className="mt-3 flex space-x-3">
+            <button
+              type="button"
+              onClick={handleExtend}
+              disabled={isExtending}
+              className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isExtending ? 'Renewing...' : 'Stay signed in'}
+            </button>
+            <button
+              type="button"
+              onClick={logout}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Sign in again
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryWarning;
@@ -0,0 +1,114 @@
+import React, { useEffect } from 'react';
+import axios from 'axios';
+import toast from 'react-hot-toast';
+import { XMarkIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+import { ActivityType } from '../types';
+import { queries } from '../utils/queries';
+import { useQuery } from '../hooks/useQuery';
+import { ACTIVITY_LABELS, getUserName } from '../utils/activity';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useAuth } from '../contexts/AuthContext';
+
+interface SlotLineageProps {
+  slotId: string;
+  onClose: () => void;
+}
+
+const SlotLineage: React.FC<SlotLineageProps> = ({ slotId, onClose }) => {
+  const { data, error, isLoading } = useQuery(queries.slotLineage(slotId));
+  const slot = data?.slot ?? null;
+  const activity = data?.activity ?? [];
+  const { formatDate } = usePreferences();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!error) return;
+    toast.error((axios.isAxiosError(error) && error.response?.data?.error) || 'Failed to load slot history');
+    onClose();
+  }, [error]);
+
+  const transfers = activity.filter(entry => entry.type === ActivityType.OWNERSHIP_CHANGED);
+  const owners = transfers.length > 0
+    ? [transfers[0].fromUserId, ...transfers.map(entry => entry.toUserId)]
+    : slot ? [slot.userId] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+        </div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Slot lineage
+              </h3>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            {isLoading || !slot ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-500"></div>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-gray-900">{slot.title}</p>
+                  <p className="text-sm text-gray-600">
+                    {formatDate(slot.startTime, 'EEEE, MMM d, yyyy')} • {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                  </p>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Owners</h4>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {owners.map((owner, index) => (
+                      <React.Fragment key={index}>
+                        {index > 0 && <ArrowRightIcon className="h-4 w-4 text-gray-400" />}
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full bg-gray-100 text-gray-800">
+                          {getUserName(owner, user?.id)}
+                        </span>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Activity</h4>
+                  {activity.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nothing has happened to this slot yet.</p>
+                  ) : (
+                    <ol className="space-y-2 border-l-2 border-gray-200 pl-4">
+                      {activity.map(entry => (
+                        <li key={entry._id} className="text-sm">
+                          <span className="font-medium text-gray-900">{ACTIVITY_LABELS[entry.type]}</span>
+                          {entry.type === ActivityType.OWNERSHIP_CHANGED
+                            ? ` from ${getUserName(entry.fromUserId, user?.id)} to ${getUserName(entry.toUserId, user?.id)}`
+                            : entry.counterpartId && ` with ${getUserName(entry.counterpartId, user?.id)}`}
+                          <span className="block text-xs text-gray-500">
+                            {formatDate(entry.createdAt, 'MMM d, yyyy at h:mm a')}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SlotLineage;
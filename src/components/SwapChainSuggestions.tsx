@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { LinkIcon } from '@heroicons/react/24/outline';
+import { User } from '../types';
+import { SwapChain } from '../utils/swapChains';
+import { usePreferences } from '../contexts/PreferencesContext';
+
+interface SwapChainSuggestionsProps {
+  chains: SwapChain[];
+  currentUserId: string;
+  users: Map<string, User>;
+  onPropose: (chain: SwapChain) => Promise<void>;
+}
+
+const SwapChainSuggestions: React.FC<SwapChainSuggestionsProps> = ({ chains, currentUserId, users, onPropose }) => {
+  const [proposingIndex, setProposingIndex] = useState<number | null>(null);
+  const { formatDate } = usePreferences();
+
+  const getName = (userId: string) => (userId === currentUserId ? 'You' : users.get(userId)?.name ?? 'Someone');
+
+  const handlePropose = async (chain: SwapChain, index: number) => {
+    setProposingIndex(index);
+    try {
+      await onPropose(chain);
+    } finally {
+      setProposingIndex(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-primary-50 border border-primary-500 rounded-lg p-4">
+      <div className="flex items-center">
+        <LinkIcon className="h-5 w-5 text-primary-600 mr-2" />
+        <h3 className="text-sm font-medium text-gray-900">Swap chains you could join</h3>
+      </div>
+      <p className="mt-1 text-sm text-gray-600">
+        Nobody can swap with you directly, but these people want each other's slots in a loop. Every
+        participant has to approve before any slot changes hands.
+      </p>
+
+      <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {chains.map((chain, index) => (
+          <div key={chain.links.map(link => link.slot._id).join('-')} className="bg-white rounded-lg shadow-sm p-4">
+            <h4 className="text-sm font-medium text-gray-900">{chain.links.length}-way swap</h4>
+            <ul className="mt-2 space-y-1 text-sm text-gray-600">
+              {chain.links.map(link => (
+                <li key={link.slot._id}>
+                  <span className="font-medium text-gray-900">{getName(link.toUserId)}</span>
+                  {link.toUserId === currentUserId ? ' get ' : ' gets '}
+                  {link.slot.title} ({formatDate(link.slot.startTime, 'MMM d, h:mm a')}) from {getName(link.fromUserId)}
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={() => handlePropose(chain, index)}
+              disabled={proposingIndex !== null}
+              className="mt-4 w-full flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {proposingIndex === index ? 'Proposing...' : 'Propose Chain Swap'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SwapChainSuggestions;
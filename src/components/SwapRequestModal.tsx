@@ -1,33 +1,95 @@
-import React, { useState } from 'react';
-import { format, parseISO } from 'date-fns';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format, min, parseISO } from 'date-fns';
 import toast from 'react-hot-toast';
-import { XMarkIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
-import { Event, User } from '../types';
+import { XMarkIcon, ArrowsRightLeftIcon, ExclamationTriangleIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { Event, EventStatus, User } from '../types';
 import { swapsAPI } from '../utils/api';
+import { usePreferences } from '../contexts/PreferencesContext';
+import OwnerTimeNote from './OwnerTimeNote';
+import { findSwapClashes, rankSlotsForTarget } from '../utils/slotRanking';
+import { formatHours, getDefaultExpiry, getTotalMinutes } from '../utils/swapRequests';
+import { fromZonedTime, toZonedTime } from '../utils/timezone';
 
 interface SwapRequestModalProps {
   targetSlot: Event;
+  // Goes false when the slot is taken or withdrawn while the form is open
+  isTargetAvailable?: boolean;
+  // Other swappable slots of the target's owner that can be added to the bundle
+  ownerSlots?: Event[];
   mySwappableSlots: Event[];
+  myEvents: Event[];
   onSuccess: () => void;
   onClose: () => void;
 }
 
 const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
   targetSlot,
+  isTargetAvailable = true,
+  ownerSlots = [],
   mySwappableSlots,
+  myEvents,
   onSuccess,
   onClose,
 }) => {
-  const [selectedMySlot, setSelectedMySlot] = useState<string>('');
+  const [selectedMySlots, setSelectedMySlots] = useState<string[]>([]);
+  const [selectedExtraTargets, setSelectedExtraTargets] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  // null keeps the expiry at its default, which follows the selected slots
+  const [expiryInput, setExpiryInput] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const { formatDate, timeZone } = usePreferences();
 
   const targetOwner = targetSlot.userId as User;
 
+  const rankedSlots = useMemo(
+    () => rankSlotsForTarget(mySwappableSlots, targetSlot, myEvents, timeZone),
+    [mySwappableSlots, targetSlot, myEvents, timeZone]
+  );
+  const bestMatchId = rankedSlots.find(ranked => !ranked.blocked)?.slot._id;
+  const allBlocked = rankedSlots.length > 0 && !bestMatchId;
+
+  const extraTargetOptions = ownerSlots.filter(slot => slot._id !== targetSlot._id);
+  const selectedTargets = [targetSlot, ...extraTargetOptions.filter(slot => selectedExtraTargets.includes(slot._id))];
+  const selectedOffers = mySwappableSlots.filter(slot => selectedMySlots.includes(slot._id));
+  const giveMinutes = getTotalMinutes(selectedOffers);
+  const getMinutes = getTotalMinutes(selectedTargets);
+
+  // The ranking above looks at the clicked slot alone; the whole bundle is checked here
+  const bundleClashes = selectedMySlots.length > 0 ? findSwapClashes(selectedMySlots, selectedTargets, myEvents) : [];
+  const bundleBlocked = bundleClashes.some(event => event.status === EventStatus.BUSY);
+
+  const involvedSlots = [...selectedOffers, ...selectedTargets];
+  const earliestStart = min(involvedSlots.map(slot => parseISO(slot.startTime)));
+  const expiryValue = expiryInput ?? format(toZonedTime(getDefaultExpiry(involvedSlots), timeZone), "yyyy-MM-dd'T'HH:mm");
+
+  // A request already in flight settles the outcome itself. The parent's onClose is usually
+  // inline, so the ref stops a re-render before unmounting from announcing it twice.
+  const hasClosedRef = useRef(false);
+  useEffect(() => {
+    if (isTargetAvailable || isLoading || hasClosedRef.current) return;
+    hasClosedRef.current = true;
+    toast.error(`"${targetSlot.title}" is no longer available. Its owner withdrew it or it was swapped.`);
+    onClose();
+  }, [isTargetAvailable, isLoading, targetSlot.title, onClose]);
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(item => item !== id) : [...ids, id];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedMySlot) {
-      toast.error('Please select one of your slots to offer');
+    if (selectedMySlots.length === 0) {
+      toast.error('Please select at least one of your slots to offer');
+      return;
+    }
+
+    const expiresAt = fromZonedTime(new Date(expiryValue), timeZone);
+    if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      toast.error('The expiry must be in the future');
+      return;
+    }
+    if (expiresAt > earliestStart) {
+      toast.error('The request must expire before the earliest slot starts');
       return;
     }
 
@@ -35,8 +97,12 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
     
     try {
       const response = await swapsAPI.createSwapRequest({
-        mySlotId: selectedMySlot,
+        mySlotId: selectedMySlots[0],
         theirSlotId: targetSlot._id,
+        mySlotIds: selectedMySlots,
+        theirSlotIds: selectedTargets.map(slot => slot._id),
+        expiresAt: expiresAt.toISOString(),
+        message: message.trim() || undefined,
       });
       
       toast.success(response.message);
@@ -83,12 +149,42 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
                     <span className="font-medium">Owner:</span> {targetOwner.name}
                   </p>
                   <p className="text-sm">
-                    <span className="font-medium">Date:</span> {format(parseISO(targetSlot.startTime), 'EEEE, MMM d, yyyy')}
+                    <span className="font-medium">Date:</span> {formatDate(targetSlot.startTime, 'EEEE, MMM d, yyyy')}
                   </p>
                   <p className="text-sm">
-                    <span className="font-medium">Time:</span> {format(parseISO(targetSlot.startTime), 'h:mm a')} - {format(parseISO(targetSlot.endTime), 'h:mm a')}
+                    <span className="font-medium">Time:</span> {formatDate(targetSlot.startTime, 'h:mm a')} - {formatDate(targetSlot.endTime, 'h:mm a')}
                   </p>
+                  <OwnerTimeNote
+                    startTime={targetSlot.startTime}
+                    endTime={targetSlot.endTime}
+                    owner={targetOwner}
+                    className="text-sm text-gray-500"
+                  />
                 </div>
+
+                {extraTargetOptions.length > 0 && (
+                  <div className="mt-4 border-t border-gray-200 pt-3">
+                    <h5 className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-2">
+                      Add more of {targetOwner.name}'s slots
+                    </h5>
+                    <div className="space-y-1">
+                      {extraTargetOptions.map(slot => (
+                        <label key={slot._id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={selectedExtraTargets.includes(slot._id)}
+                            onChange={() => setSelectedExtraTargets(prev => toggleId(prev, slot._id))}
+                            className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span className="font-medium mr-1">{slot.title}</span>
+                          <span className="text-gray-500">
+                            {formatDate(slot.startTime, 'MMM d')} • {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-center">
@@ -97,43 +193,78 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
 
               {/* My Slots Selection */}
               <div>
-                <h4 className="text-sm font-medium text-gray-900 mb-3">Select one of your swappable slots to offer:</h4>
+                <h4 className="text-sm font-medium text-gray-900 mb-3">Select one or more of your swappable slots to offer:</h4>
+                {allBlocked && (
+                  <div className="mb-3 flex items-start rounded-md bg-red-50 p-3 text-sm text-red-700">
+                    <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                    This slot overlaps one of your busy events, so taking it would double-book you.
+                  </div>
+                )}
                 <div className="space-y-3">
-                  {mySwappableSlots.map((slot) => (
+                  {rankedSlots.map(({ slot, reasons, clashes, blocked }) => (
                     <label
                       key={slot._id}
-                      className={`relative flex cursor-pointer rounded-lg border p-4 focus:outline-none ${
-                        selectedMySlot === slot._id
-                          ? 'border-primary-600 bg-primary-50'
-                          : 'border-gray-300 bg-white hover:bg-gray-50'
+                      className={`relative flex rounded-lg border p-4 focus:outline-none ${
+                        blocked
+                          ? 'cursor-not-allowed border-gray-200 bg-gray-50 opacity-60'
+                          : selectedMySlots.includes(slot._id)
+                            ? 'cursor-pointer border-primary-600 bg-primary-50'
+                            : 'cursor-pointer border-gray-300 bg-white hover:bg-gray-50'
                       }`}
                     >
                       <input
-                        type="radio"
+                        type="checkbox"
                         name="mySlot"
                         value={slot._id}
-                        checked={selectedMySlot === slot._id}
-                        onChange={(e) => setSelectedMySlot(e.target.value)}
+                        checked={selectedMySlots.includes(slot._id)}
+                        disabled={blocked}
+                        onChange={() => setSelectedMySlots(prev => toggleId(prev, slot._id))}
                         className="sr-only"
                       />
                       <div className="flex w-full items-center justify-between">
                         <div className="flex items-center">
                           <div className="text-sm">
-                            <div className="font-medium text-gray-900">{slot.title}</div>
+                            <div className="flex items-center font-medium text-gray-900">
+                              {slot.title}
+                              {slot._id === bestMatchId && (
+                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-primary-50 text-primary-700">
+                                  Best match
+                                </span>
+                              )}
+                            </div>
                             <div className="text-gray-500">
-                              {format(parseISO(slot.startTime), 'MMM d, yyyy')} • {format(parseISO(slot.startTime), 'h:mm a')} - {format(parseISO(slot.endTime), 'h:mm a')}
+                              {formatDate(slot.startTime, 'MMM d, yyyy')} • {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                            </div>
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {reasons.map(reason => (
+                                <span
+                                  key={reason.label}
+                                  className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                                    reason.tone === 'positive' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                                  }`}
+                                >
+                                  {reason.label}
+                                </span>
+                              ))}
                             </div>
+                            {clashes.length > 0 && (
+                              <div className={`mt-1 text-xs ${blocked ? 'text-red-600' : 'text-yellow-700'}`}>
+                                {blocked
+                                  ? 'Unavailable: you would be double-booked after the swap'
+                                  : 'You would be double-booked unless those slots are swapped away too'}
+                              </div>
+                            )}
                           </div>
                         </div>
                         <div
-                          className={`h-5 w-5 rounded-full border-2 ${
-                            selectedMySlot === slot._id
+                          className={`h-5 w-5 flex-shrink-0 rounded border-2 ${
+                            selectedMySlots.includes(slot._id)
                               ? 'border-primary-600 bg-primary-600'
                               : 'border-gray-300'
                           }`}
                         >
-                          {selectedMySlot === slot._id && (
-                            <div className="h-full w-full rounded-full bg-white scale-50"></div>
+                          {selectedMySlots.includes(slot._id) && (
+                            <CheckIcon className="h-full w-full text-white" />
                           )}
                         </div>
                       </div>
@@ -142,6 +273,65 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
                 </div>
               </div>
 
+              {selectedMySlots.length > 0 && (
+                <div className="rounded-lg border border-gray-200 p-4 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">
+                      You give {selectedOffers.length} {selectedOffers.length === 1 ? 'slot' : 'slots'}
+                    </span>
+                    <span className="font-medium text-gray-900">{formatHours(giveMinutes)}</span>
+                  </div>
+                  <div className="mt-1 flex justify-between">
+                    <span className="text-gray-600">
+                      You get {selectedTargets.length} {selectedTargets.length === 1 ? 'slot' : 'slots'}
+                    </span>
+                    <span className="font-medium text-gray-900">{formatHours(getMinutes)}</span>
+                  </div>
+                  {giveMinutes !== getMinutes && (
+                    <p className="mt-2 text-xs text-yellow-700">
+                      The two sides differ by {formatHours(Math.abs(giveMinutes - getMinutes))}.
+                    </p>
+                  )}
+                  {bundleClashes.length > 0 && (
+                    <p className={`mt-2 text-xs ${bundleBlocked ? 'text-red-600' : 'text-yellow-700'}`}>
+                      After this swap you would be double-booked with {bundleClashes.map(event => event.title).join(', ')}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="swapExpiry" className="block text-sm font-medium text-gray-900">
+                  Request expires
+                </label>
+                <input
+                  id="swapExpiry"
+                  type="datetime-local"
+                  value={expiryValue}
+                  max={format(toZonedTime(earliestStart, timeZone), "yyyy-MM-dd'T'HH:mm")}
+                  onChange={(e) => setExpiryInput(e.target.value)}
+                  className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  If nobody answers by then, the request expires and the slots become swappable again.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="swapMessage" className="block text-sm font-medium text-gray-900">
+                  Message to {targetOwner.name} (optional)
+                </label>
+                <textarea
+                  id="swapMessage"
+                  rows={3}
+                  maxLength={500}
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  className="mt-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                  placeholder="Let them know why you'd like this slot"
+                />
+              </div>
+
               <div className="bg-blue-50 p-4 rounded-lg">
                 <div className="flex">
                   <div className="ml-3">
@@ -152,7 +342,7 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
                       <p>
                         When you submit this request, {targetOwner.name} will receive a notification.
                         They can choose to accept or reject your swap proposal. If accepted, you'll
-                        get their slot and they'll get yours.
+                        get their slots and they'll get yours. A bundle is swapped all at once or not at all.
                       </p>
                     </div>
                   </div>
@@ -169,7 +359,7 @@ const SwapRequestModal: React.FC<SwapRequestModalProps> = ({
                 </button>
                 <button
                   type="submit"
-                  disabled={isLoading || !selectedMySlot}
+                  disabled={isLoading || selectedMySlots.length === 0 || bundleBlocked}
                   className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading ? 'Sending Request...' : 'Send Swap Request'}
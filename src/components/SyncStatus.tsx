@@ -0,0 +1,41 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowPathIcon, CloudArrowUpIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useOffline } from '../contexts/OfflineContext';
+
+const SyncStatus: React.FC = () => {
+  const { status, pendingEntries, conflicts } = useOffline();
+
+  // Being offline with nothing queued is already shown by the connection status
+  if (status === 'synced' || (status === 'offline' && pendingEntries.length === 0)) {
+    return null;
+  }
+
+  const count = status === 'conflict' ? conflicts.length : pendingEntries.length;
+  const label = status === 'conflict'
+    ? `${count} change${count === 1 ? '' : 's'} need attention`
+    : status === 'syncing'
+      ? 'Syncing...'
+      : `${count} change${count === 1 ? '' : 's'} not synced`;
+
+  return (
+    <Link
+      to="/sync"
+      className={`inline-flex items-center text-xs font-medium ${
+        status === 'conflict' ? 'text-red-700 hover:text-red-800' : 'text-yellow-700 hover:text-yellow-800'
+      }`}
+      title="Offline changes"
+    >
+      {status === 'conflict' ? (
+        <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+      ) : status === 'syncing' ? (
+        <ArrowPathIcon className="h-4 w-4 mr-1 animate-spin" />
+      ) : (
+        <CloudArrowUpIcon className="h-4 w-4 mr-1" />
+      )}
+      {label}
+    </Link>
+  );
+};
+
+export default SyncStatus;
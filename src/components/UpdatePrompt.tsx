@@ -0,0 +1,40 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { applyUpdate, isUpdateAvailable, subscribeUpdate } from '../utils/serviceWorker';
+
+const UpdatePrompt: React.FC = () => {
+  const isAvailable = useSyncExternalStore(subscribeUpdate, isUpdateAvailable);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  if (!isAvailable || isDismissed) return null;
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 sm:left-auto sm:right-4 sm:w-96 z-50 bg-white shadow-lg rounded-lg border border-gray-200 p-4" role="status">
+      <div className="flex items-start">
+        <ArrowPathIcon className="h-5 w-5 text-primary-600 mt-0.5" />
+        <div className="ml-3 flex-1">
+          <p className="text-sm font-medium text-gray-900">A new version of SlotSwapper is available</p>
+          <p className="mt-1 text-sm text-gray-500">Reload to start using it. Changes saved offline are kept.</p>
+          <div className="mt-3 flex space-x-3">
+            <button
+              type="button"
+              onClick={applyUpdate}
+              className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Reload
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsDismissed(true)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Later
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
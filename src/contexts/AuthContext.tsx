@@ -1,15 +1,25 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
 import type { User } from '../types';
+import { clearQueryCache } from '../utils/queryCache';
+import { isNetworkError, refreshAccessToken, subscribeSession } from '../utils/api';
+import { decodeToken, getTokenExpiry } from '../utils/jwt';
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // Set once the session could not be renewed and will end at this time
+  sessionEndsAt: string | null;
+  extendSession: () => Promise<boolean>;
 }
 
+// The token is renewed this long before it expires, which is also how early the user is warned
+const REFRESH_LEAD_TIME = 5 * 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -28,6 +38,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionEndsAt, setSessionEndsAt] = useState<string | null>(null);
 
   useEffect(() => {
     // Check for stored auth data on app load
@@ -49,19 +60,95 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(false);
   }, []);
 
-  const login = (newToken: string, newUser: User) => {
+  const login = (newToken: string, newUser: User, refreshToken?: string) => {
     setToken(newToken);
     setUser(newUser);
     localStorage.setItem('token', newToken);
     localStorage.setItem('user', JSON.stringify(newUser));
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    } else {
+      localStorage.removeItem('refreshToken');
+    }
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     setToken(null);
     setUser(null);
+    setSessionEndsAt(null);
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
-  };
+    // Cached data belongs to the previous user
+    clearQueryCache();
+  }, []);
+
+  // Refreshes made by the API client, including ones triggered by a rejected request
+  useEffect(() => {
+    return subscribeSession(event => {
+      if (event.type === 'refreshed') {
+        setToken(event.token);
+        setSessionEndsAt(null);
+      } else if (token) {
+        toast.error('Your session has expired. Please sign in again.', { id: 'session-expired' });
+        logout();
+      }
+    });
+  }, [token, logout]);
+
+  // Another tab refreshed the token or signed out
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'token') return;
+      if (event.newValue) {
+        setToken(event.newValue);
+        setSessionEndsAt(null);
+      } else {
+        logout();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [logout]);
+
+  const extendSession = useCallback(async () => {
+    try {
+      await refreshAccessToken();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+    const expiresAt = getTokenExpiry(token);
+    if (expiresAt === null) return;
+
+    let logoutTimer: ReturnType<typeof setTimeout> | undefined;
+    const issuedAt = decodeToken(token)?.iat;
+    // Short-lived tokens are renewed halfway through instead
+    const lead = issuedAt ? Math.min(REFRESH_LEAD_TIME, (expiresAt - issuedAt * 1000) / 2) : REFRESH_LEAD_TIME;
+
+    const refreshTimer = setTimeout(async () => {
+      try {
+        await refreshAccessToken();
+      } catch (error) {
+        // Offline: the next request refreshes once the connection is back
+        if (isNetworkError(error)) return;
+        setSessionEndsAt(new Date(expiresAt).toISOString());
+        logoutTimer = setTimeout(() => {
+          toast.error('Your session has expired. Please sign in again.', { id: 'session-expired' });
+          logout();
+        }, Math.max(0, expiresAt - Date.now()));
+      }
+    }, Math.max(0, expiresAt - lead - Date.now()));
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(logoutTimer);
+    };
+  }, [token, logout]);
 
   const value: AuthContextType = {
     user,
@@ -70,6 +157,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     isAuthenticated: !!token && !!user,
     isLoading,
+    sessionEndsAt,
+    extendSession,
   };
 
   return (
@@ -0,0 +1,108 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { AppNotification } from '../types';
+import { useAuth } from './AuthContext';
+import { RESYNC_EVENT, useSocketConnection } from './SocketContext';
+import { notificationsAPI } from '../utils/api';
+import { useSocket } from '../hooks/useSocket';
+
+interface NotificationsContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+};
+
+interface NotificationsProviderProps {
+  children: React.ReactNode;
+}
+
+export const NotificationsProvider: React.FC<NotificationsProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const { subscribe } = useSocketConnection();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await notificationsAPI.getNotifications();
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+    refresh();
+  }, [isAuthenticated, refresh]);
+
+  const handleNotification = useCallback((notification: AppNotification) => {
+    setNotifications(prev => [notification, ...prev.filter(item => item._id !== notification._id)]);
+    if (!notification.read) {
+      setUnreadCount(prev => prev + 1);
+    }
+  }, []);
+
+  // Always mounted, so events are announced on every page and in background tabs
+  useSocket({ onNotification: handleNotification });
+
+  useEffect(() => subscribe(RESYNC_EVENT, refresh), [subscribe, refresh]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    const target = notifications.find(item => item._id === notificationId);
+    if (!target || target.read) return;
+
+    setNotifications(prev => prev.map(item => (item._id === notificationId ? { ...item, read: true } : item)));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+
+    try {
+      await notificationsAPI.markRead(notificationId);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to mark notification as read');
+      refresh();
+    }
+  }, [notifications, refresh]);
+
+  const markAllRead = useCallback(async () => {
+    setNotifications(prev => prev.map(item => ({ ...item, read: true })));
+    setUnreadCount(0);
+
+    try {
+      await notificationsAPI.markAllRead();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to mark notifications as read');
+      refresh();
+    }
+  }, [refresh]);
+
+  const value: NotificationsContextType = {
+    notifications,
+    unreadCount,
+    markRead,
+    markAllRead,
+    refresh,
+  };
+
+  return (
+    <NotificationsContext.Provider value={value}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { createContext, useContext, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import type { OutboxEntry, SyncStatus } from '../types';
+import { useAuth } from './AuthContext';
+import { useSocketConnection } from './SocketContext';
+import { offlineStore } from '../utils/offlineStore';
+import { clearApiCache } from '../utils/serviceWorker';
+import { hydrateQuery, subscribeQueryData } from '../utils/queryCache';
+import {
+  PERSISTED_QUERY_KEYS,
+  discardOfflineData,
+  discardOutboxEntry,
+  getMutationEventId,
+  getOutboxSnapshot,
+  loadOutbox,
+  replayOutbox,
+  retryOutboxEntry,
+  subscribeOutbox,
+} from '../utils/outbox';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  status: SyncStatus;
+  pendingEntries: OutboxEntry[];
+  conflicts: OutboxEntry[];
+  // Events with changes that have not reached the server yet
+  queuedEventIds: ReadonlySet<string>;
+  syncNow: () => Promise<void>;
+  retryConflict: (id: number) => Promise<void>;
+  discardConflict: (id: number) => Promise<void>;
+  // For an explicit sign-out; a forced one keeps queued changes for the next sign-in
+  discardAllChanges: () => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+export const useOffline = () => {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+};
+
+interface OfflineProviderProps {
+  children: React.ReactNode;
+}
+
+export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { status: socketStatus } = useSocketConnection();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const outbox = useSyncExternalStore(subscribeOutbox, getOutboxSnapshot);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+
+    if (!userId) {
+      // Stored schedules belong to whoever signed out. Their queued changes stay keyed by user,
+      // since an expired session signs out without asking and they are replayed after signing in.
+      loadOutbox(null);
+      offlineStore.clearQueries().catch(error => console.error('Error clearing offline data:', error));
+      clearApiCache();
+      return;
+    }
+
+    // Pages render straight away and fetch as usual; stored data only fills queries still empty
+    let cancelled = false;
+    const hydrate = async () => {
+      try {
+        const stored = await offlineStore.getQueries(userId);
+        if (cancelled) return;
+        stored.forEach(({ key, data }) => hydrateQuery(key, data));
+        await loadOutbox(userId);
+      } catch (error) {
+        console.error('Error loading offline data:', error);
+      } finally {
+        if (!cancelled) {
+          replayOutbox();
+        }
+      }
+    };
+    hydrate();
+
+    const unsubscribe = subscribeQueryData((key, data) => {
+      if (!PERSISTED_QUERY_KEYS.includes(key) || data === undefined) return;
+      offlineStore.putQuery(userId, key, data).catch(error => console.error('Error saving offline data:', error));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId, isAuthLoading]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replayOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // The browser can report online while the server was unreachable; a fresh socket connection proves it is back
+  useEffect(() => {
+    if (socketStatus === 'connected') {
+      replayOutbox();
+    }
+  }, [socketStatus]);
+
+  const pendingEntries = useMemo(() => outbox.entries.filter(entry => !entry.conflict), [outbox.entries]);
+  const conflicts = useMemo(() => outbox.entries.filter(entry => entry.conflict), [outbox.entries]);
+  const queuedEventIds = useMemo(
+    () => new Set(pendingEntries.map(entry => getMutationEventId(entry.mutation))),
+    [pendingEntries]
+  );
+
+  const status: SyncStatus = conflicts.length > 0
+    ? 'conflict'
+    : !isOnline
+      ? 'offline'
+      : outbox.isReplaying
+        ? 'syncing'
+        : pendingEntries.length > 0 ? 'pending' : 'synced';
+
+  const value: OfflineContextType = {
+    isOnline,
+    status,
+    pendingEntries,
+    conflicts,
+    queuedEventIds,
+    syncNow: replayOutbox,
+    retryConflict: retryOutboxEntry,
+    discardConflict: discardOutboxEntry,
+    discardAllChanges: discardOfflineData,
+  };
+
+  return (
+    <OfflineContext.Provider value={value}>
+      {children}
+    </OfflineContext.Provider>
+  );
+};
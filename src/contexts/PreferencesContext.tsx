@@ -0,0 +1,105 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { UserPreferences } from '../types';
+import { useAuth } from './AuthContext';
+import { usersAPI } from '../utils/api';
+import { formatInTimeZone, getBrowserTimeZone } from '../utils/timezone';
+import { DEFAULT_QUIET_HOURS, getDefaultNotificationChannels } from '../utils/notify';
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => void;
+  timeZone: string;
+  formatDate: (date: Date | string, pattern: string) => string;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
+
+const getStorageKey = (userId: string) => `preferences:${userId}`;
+
+const getDefaultPreferences = (timeZone?: string): UserPreferences => ({
+  timeZone: timeZone || getBrowserTimeZone(),
+  notificationChannels: getDefaultNotificationChannels(),
+  quietHours: DEFAULT_QUIET_HOURS,
+});
+
+interface PreferencesProviderProps {
+  children: React.ReactNode;
+}
+
+export const PreferencesProvider: React.FC<PreferencesProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences>(getDefaultPreferences());
+
+  // Load the signed-in user's preferences, falling back to their profile and browser defaults
+  useEffect(() => {
+    if (!user) {
+      setPreferences(getDefaultPreferences());
+      return;
+    }
+
+    const defaults = getDefaultPreferences(user.timeZone);
+    const stored = localStorage.getItem(getStorageKey(user.id));
+    if (!stored) {
+      setPreferences(defaults);
+      return;
+    }
+
+    try {
+      const parsed: Partial<UserPreferences> = JSON.parse(stored);
+      // Event types added since the preferences were saved keep their defaults
+      setPreferences({
+        ...defaults,
+        ...parsed,
+        notificationChannels: { ...defaults.notificationChannels, ...parsed.notificationChannels },
+      });
+    } catch (error) {
+      console.error('Error parsing stored preferences:', error);
+      localStorage.removeItem(getStorageKey(user.id));
+      setPreferences(defaults);
+    }
+  }, [user]);
+
+  const updatePreferences = useCallback((changes: Partial<UserPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes };
+      if (user) {
+        localStorage.setItem(getStorageKey(user.id), JSON.stringify(next));
+      }
+      return next;
+    });
+
+    // The server copy lets other users see this user's time zone
+    if (user) {
+      usersAPI.updatePreferences(changes).catch(() => {
+        toast.error('Preferences saved on this device only');
+      });
+    }
+  }, [user]);
+
+  const formatDate = useCallback(
+    (date: Date | string, pattern: string) => formatInTimeZone(date, preferences.timeZone, pattern),
+    [preferences.timeZone]
+  );
+
+  const value: PreferencesContextType = {
+    preferences,
+    updatePreferences,
+    timeZone: preferences.timeZone,
+    formatDate,
+  };
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
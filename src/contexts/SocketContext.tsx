@@ -0,0 +1,169 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import type { SocketConnectionStatus } from '../types';
+import { useAuth } from './AuthContext';
+import { socketAPI } from '../utils/api';
+import { invalidateQueries } from '../utils/queryCache';
+import { SOCKET_EVENT_INVALIDATIONS, SWAP_CHANGE_KEYS, queryKeys } from '../utils/queries';
+
+type SocketEventHandler<T = unknown> = (data: T) => void;
+
+const isPayload = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+// Local event for state outside the query cache, sent after a reconnect that could not tell what was missed
+export const RESYNC_EVENT = 'resync';
+
+interface SocketContextType {
+  socket: Socket | null;
+  status: SocketConnectionStatus;
+  // The payload type is the caller's reading of what the server sends for that event
+  subscribe: <T = unknown>(event: string, handler: SocketEventHandler<T>) => () => void;
+  reconnect: () => void;
+}
+
+const SocketContext = createContext<SocketContextType | undefined>(undefined);
+
+export const useSocketConnection = () => {
+  const context = useContext(SocketContext);
+  if (context === undefined) {
+    throw new Error('useSocketConnection must be used within a SocketProvider');
+  }
+  return context;
+};
+
+interface SocketProviderProps {
+  children: React.ReactNode;
+}
+
+export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const userId = user?.id;
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [status, setStatus] = useState<SocketConnectionStatus>('disconnected');
+  const handlersRef = useRef(new Map<string, Set<SocketEventHandler>>());
+  // Sequence number of the last server event handled, used to ask for anything missed while offline
+  const lastSeqRef = useRef<number | null>(null);
+
+  const dispatch = useCallback((event: string, data: unknown) => {
+    const seq = isPayload(data) && typeof data.seq === 'number' ? data.seq : null;
+    if (seq !== null) {
+      if (lastSeqRef.current !== null && seq <= lastSeqRef.current) return;
+      lastSeqRef.current = seq;
+    }
+    invalidateQueries(...(SOCKET_EVENT_INVALIDATIONS[event] ?? []));
+    handlersRef.current.get(event)?.forEach(handler => handler(data));
+  }, []);
+
+  const subscribe = useCallback(<T,>(event: string, handler: SocketEventHandler<T>) => {
+    const handlers = handlersRef.current.get(event) ?? new Set<SocketEventHandler>();
+    const stored = handler as SocketEventHandler;
+    handlers.add(stored);
+    handlersRef.current.set(event, handlers);
+    return () => {
+      handlers.delete(stored);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    const socketUrl = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
+    const nextSocket = io(socketUrl, {
+      autoConnect: false,
+    });
+
+    const resync = async () => {
+      const since = lastSeqRef.current;
+      if (since === null) {
+        // No baseline to ask from, so anything may have changed
+        invalidateQueries(...SWAP_CHANGE_KEYS, queryKeys.chainSwaps);
+        handlersRef.current.get(RESYNC_EVENT)?.forEach(handler => handler(undefined));
+        return;
+      }
+      try {
+        const response = await socketAPI.getMissedEvents(since);
+        response.events
+          .sort((a, b) => a.seq - b.seq)
+          .forEach(({ event, data, seq }) => dispatch(event, isPayload(data) ? { ...data, seq } : { seq }));
+      } catch (error) {
+        console.error('Error fetching missed socket events:', error);
+      }
+    };
+
+    let hasConnected = false;
+    nextSocket.on('connect', () => {
+      console.log('Connected to server');
+      setStatus('connected');
+      // The server forgets room membership across reconnects. Its ack carries the latest seq,
+      // which is the baseline for resyncing when no event has arrived yet this session.
+      nextSocket.emit('join', userId, (ack?: { seq?: number }) => {
+        if (lastSeqRef.current === null && typeof ack?.seq === 'number') {
+          lastSeqRef.current = ack.seq;
+        }
+      });
+      // Pages fetch fresh data on the first connection, so only later ones catch up
+      if (hasConnected) {
+        resync();
+      }
+      hasConnected = true;
+    });
+
+    nextSocket.on('disconnect', () => {
+      console.log('Disconnected from server');
+      // socket.io retries on its own unless either side closed the connection deliberately
+      setStatus(nextSocket.active ? 'reconnecting' : 'disconnected');
+    });
+
+    nextSocket.on('connect_error', () => {
+      setStatus(nextSocket.active ? 'reconnecting' : 'disconnected');
+    });
+
+    nextSocket.io.on('reconnect_failed', () => {
+      setStatus('disconnected');
+    });
+
+    nextSocket.onAny(dispatch);
+
+    // Laptops coming back from sleep report online before socket.io notices the dead connection
+    const handleOnline = () => {
+      if (!nextSocket.connected) {
+        nextSocket.connect();
+      }
+    };
+    window.addEventListener('online', handleOnline);
+
+    setSocket(nextSocket);
+    setStatus('connecting');
+    nextSocket.connect();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      nextSocket.offAny(dispatch);
+      nextSocket.disconnect();
+      setSocket(null);
+      setStatus('disconnected');
+      lastSeqRef.current = null;
+    };
+  }, [isAuthenticated, userId, dispatch]);
+
+  const reconnect = useCallback(() => {
+    if (socket && !socket.connected) {
+      setStatus('connecting');
+      socket.connect();
+    }
+  }, [socket]);
+
+  const value: SocketContextType = {
+    socket,
+    status,
+    subscribe,
+    reconnect,
+  };
+
+  return (
+    <SocketContext.Provider value={value}>
+      {children}
+    </SocketContext.Provider>
+  );
+};
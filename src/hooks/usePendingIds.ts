@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getPendingIds, subscribePending } from '../utils/optimistic';
+
+// Ids with an optimistic change that the server has not confirmed yet
+export const usePendingIds = () => useSyncExternalStore(subscribePending, getPendingIds);
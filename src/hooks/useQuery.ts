@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  Query,
+  ensureQuery,
+  fetchQuery,
+  getQueryState,
+  setQueryData,
+  subscribeQuery,
+} from '../utils/queryCache';
+
+interface UseQueryOptions {
+  staleTime?: number;
+  enabled?: boolean;
+}
+
+export const useQuery = <T>(query: Query<T>, options: UseQueryOptions = {}) => {
+  const { key } = query;
+  const enabled = options.enabled ?? true;
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+  const fetchRef = useRef(query.fetch);
+  fetchRef.current = query.fetch;
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(key, listener), [key]);
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(key));
+
+  useEffect(() => {
+    if (enabled) {
+      ensureQuery(key, () => fetchRef.current(), staleTime);
+    }
+  }, [key, enabled, staleTime]);
+
+  const refetch = useCallback(() => fetchQuery(key, () => fetchRef.current()), [key]);
+  const setData = useCallback(
+    (updater: T | ((prev: T | undefined) => T)) => setQueryData<T>(key, updater),
+    [key]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    // Only true before the first response; later refreshes keep showing cached data
+    isLoading: state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+    setData,
+  };
+};
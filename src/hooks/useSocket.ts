@@ -1,67 +1,133 @@
 import { useEffect, useRef } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { useAuth } from '../contexts/AuthContext';
-import toast from 'react-hot-toast';
+import { useSocketConnection } from '../contexts/SocketContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { AppNotification, Event } from '../types';
+import { dispatchNotification } from '../utils/notify';
 
 interface UseSocketOptions {
   onSwapRequestReceived?: () => void;
   onSwapRequestResponded?: () => void;
+  onSwapRequestCancelled?: () => void;
+  onSwapRequestCountered?: () => void;
+  onChainSwapUpdated?: () => void;
+  onSwapRequestExpired?: () => void;
+  onNotification?: (notification: AppNotification) => void;
+  onSlotAdded?: (slot: Event) => void;
+  onSlotRemoved?: (slotId: string) => void;
+  onSlotUpdated?: (slot: Event) => void;
+  // Only the notification center announces events; page listeners opt out to avoid duplicates
+  notify?: boolean;
 }
 
 export const useSocket = (options: UseSocketOptions = {}) => {
-  const { user, isAuthenticated } = useAuth();
-  const socketRef = useRef<Socket | null>(null);
+  const { socket, subscribe } = useSocketConnection();
+  const { preferences } = usePreferences();
+  // Read at event time so inline callbacks and preference changes do not resubscribe
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
 
   useEffect(() => {
-    if (!isAuthenticated || !user) return;
-
-    const socketUrl = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
-    const socket = io(socketUrl, {
-      autoConnect: false,
-    });
-
-    socketRef.current = socket;
-
-    socket.connect();
-
-    socket.on('connect', () => {
-      console.log('Connected to server');
-      socket.emit('join', user.id);
-    });
-
-    socket.on('swapRequestReceived', (data: { message: string; requesterName: string }) => {
-      toast.success(`New swap request from ${data.requesterName}!`, {
-        duration: 5000,
-        icon: '🔄',
-      });
-      options.onSwapRequestReceived?.();
-    });
-
-    socket.on('swapRequestAccepted', (data: { message: string }) => {
-      toast.success(data.message, {
-        duration: 5000,
-        icon: '✅',
-      });
-      options.onSwapRequestResponded?.();
-    });
-
-    socket.on('swapRequestRejected', (data: { message: string }) => {
-      toast.error(data.message, {
-        duration: 5000,
-        icon: '❌',
-      });
-      options.onSwapRequestResponded?.();
-    });
-
-    socket.on('disconnect', () => {
-      console.log('Disconnected from server');
-    });
-
-    return () => {
-      socket.disconnect();
-      socketRef.current = null;
-    };
-  }, [isAuthenticated, user, options.onSwapRequestReceived, options.onSwapRequestResponded]);
-
-  return socketRef.current;
-};
\ No newline at end of file
+    const notify = () => optionsRef.current.notify ?? true;
+
+    const unsubscribes = [
+      subscribe('swapRequestReceived', (data: { message: string; requesterName: string; requestMessage?: string }) => {
+        const note = data.requestMessage ? ` "${data.requestMessage}"` : '';
+        if (notify()) {
+          dispatchNotification('swapRequestReceived', {
+            message: `New swap request from ${data.requesterName}!${note}`,
+            icon: '🔄',
+            variant: 'success',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestReceived?.();
+      }),
+
+      subscribe('swapRequestAccepted', (data: { message: string }) => {
+        if (notify()) {
+          dispatchNotification('swapRequestAccepted', {
+            message: data.message,
+            icon: '✅',
+            variant: 'success',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestResponded?.();
+      }),
+
+      subscribe('swapRequestRejected', (data: { message: string; reason?: string }) => {
+        if (notify()) {
+          dispatchNotification('swapRequestRejected', {
+            message: data.reason ? `${data.message} Reason: ${data.reason}` : data.message,
+            icon: '❌',
+            variant: 'error',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestResponded?.();
+      }),
+
+      subscribe('swapRequestCancelled', (data: { message: string; requesterName: string }) => {
+        if (notify()) {
+          dispatchNotification('swapRequestCancelled', {
+            message: `${data.requesterName} withdrew their swap request`,
+            icon: '↩️',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestCancelled?.();
+      }),
+
+      subscribe('swapRequestCountered', (data: { message: string; senderName: string }) => {
+        if (notify()) {
+          dispatchNotification('swapRequestCountered', {
+            message: `${data.senderName} sent a counter-offer`,
+            icon: '🤝',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestCountered?.();
+      }),
+
+      subscribe('chainSwapUpdated', (data: { message: string }) => {
+        if (notify()) {
+          dispatchNotification('chainSwapUpdated', {
+            message: data.message,
+            icon: '🔗',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onChainSwapUpdated?.();
+      }),
+
+      // Sent to both parties when a request runs past its deadline and the slots are released
+      subscribe('swapRequestExpired', (data: { message: string }) => {
+        if (notify()) {
+          dispatchNotification('swapRequestExpired', {
+            message: data.message,
+            icon: '⌛',
+          }, preferencesRef.current);
+        }
+        optionsRef.current.onSwapRequestExpired?.();
+      }),
+
+      // The persisted copy of each event above, for the notification center
+      subscribe('notification', (notification: AppNotification) => {
+        optionsRef.current.onNotification?.(notification);
+      }),
+
+      // Marketplace changes are broadcast to everyone and never announced
+      subscribe('slotAdded', (data: { slot: Event }) => {
+        optionsRef.current.onSlotAdded?.(data.slot);
+      }),
+
+      subscribe('slotRemoved', (data: { slotId: string }) => {
+        optionsRef.current.onSlotRemoved?.(data.slotId);
+      }),
+
+      subscribe('slotUpdated', (data: { slot: Event }) => {
+        optionsRef.current.onSlotUpdated?.(data.slot);
+      }),
+    ];
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [subscribe]);
+
+  return socket;
+};
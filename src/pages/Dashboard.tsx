@@ -1,57 +1,229 @@
-import React, { useState, useEffect } from 'react';
-import { format, parseISO, isAfter } from 'date-fns';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseISO, isAfter } from 'date-fns';
 import toast from 'react-hot-toast';
-import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, ArrowPathIcon, ArrowUpTrayIcon, ArrowDownTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import Layout from '../components/Layout';
 import EventModal from '../components/EventModal';
-import { Event, EventStatus } from '../types';
-import { eventsAPI } from '../utils/api';
-import { useSocket } from '../hooks/useSocket';
+import CalendarView from '../components/CalendarView';
+import RecurrenceScopeDialog from '../components/RecurrenceScopeDialog';
+import ImportEventsModal from '../components/ImportEventsModal';
+import ExportEventsModal from '../components/ExportEventsModal';
+import { Event, EventStatus, RecurrenceScope } from '../types';
+import { offlineEventsAPI } from '../utils/outbox';
+import { queries, queryKeys } from '../utils/queries';
+import { getQueryState, invalidateQueries } from '../utils/queryCache';
+import { runOptimistic } from '../utils/optimistic';
+import { CalendarView as CalendarViewMode, DEFAULT_SNAP_MINUTES, SNAP_OPTIONS, getOverlappingEventIds } from '../utils/calendar';
+import { useQuery } from '../hooks/useQuery';
+import { usePendingIds } from '../hooks/usePendingIds';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useOffline } from '../contexts/OfflineContext';
+import { fromZonedTime, toZonedTime } from '../utils/timezone';
+
+type DashboardView = CalendarViewMode | 'list';
+
+const VIEW_OPTIONS: { value: DashboardView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'list', label: 'List' },
+];
 
 const Dashboard: React.FC = () => {
-  const [events, setEvents] = useState<Event[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Swap socket events invalidate the cached events, so the calendar refreshes on its own
+  const { data: events = [], isLoading, isFetching, error, setData } = useQuery(queries.events);
   const [showModal, setShowModal] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
-
-  const fetchEvents = async () => {
-    try {
-      const response = await eventsAPI.getEvents();
-      setEvents(response.events);
-    } catch (error: any) {
-      toast.error('Failed to fetch events');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Setup socket for real-time updates
-  useSocket({
-    onSwapRequestReceived: fetchEvents,
-    onSwapRequestResponded: fetchEvents,
-  });
+  const [selectedRange, setSelectedRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [view, setView] = useState<DashboardView>('week');
+  const { timeZone, formatDate } = usePreferences();
+  const [currentDate, setCurrentDate] = useState(() => toZonedTime(new Date(), timeZone));
+  const [snapMinutes, setSnapMinutes] = useState(DEFAULT_SNAP_MINUTES);
+  const [deletingSeriesEvent, setDeletingSeriesEvent] = useState<Event | null>(null);
+  const [reschedulingSeriesEvent, setReschedulingSeriesEvent] = useState<{ event: Event; start: Date; end: Date } | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const pendingIds = usePendingIds();
+  const { queuedEventIds } = useOffline();
+  const unsyncedIds = useMemo(() => new Set([...pendingIds, ...queuedEventIds]), [pendingIds, queuedEventIds]);
 
   useEffect(() => {
-    fetchEvents();
-  }, []);
+    if (error) toast.error('Failed to fetch events');
+  }, [error]);
+
+  const setEvents = (update: (prev: Event[]) => Event[]) => setData(prev => update(prev ?? []));
+  const replaceEvent = (next: Event) => setEvents(prev => prev.map(e => e._id === next._id ? next : e));
+  const removeEvent = (event: Event) => {
+    setEvents(prev => prev.filter(e => e._id !== event._id));
+    return () => setEvents(prev => prev.some(e => e._id === event._id) ? prev : [...prev, event]);
+  };
+  const refreshEvents = () => invalidateQueries(queryKeys.events);
 
   const handleCreateEvent = () => {
     setEditingEvent(null);
+    setSelectedRange(null);
     setShowModal(true);
   };
 
-  const handleEditEvent = (event: Event) => {
+  const handleEditEvent = useCallback((event: Event) => {
     setEditingEvent(event);
     setShowModal(true);
+  }, []);
+
+  const handleSlotSelect = (start: Date, end: Date) => {
+    setEditingEvent(null);
+    setSelectedRange({ start, end });
+    setShowModal(true);
+  };
+
+  const handleCalendarEventClick = useCallback((event: Event) => {
+    if (event.status === EventStatus.SWAP_PENDING) {
+      toast('This event has a pending swap and cannot be edited', { icon: '⏳' });
+      return;
+    }
+    handleEditEvent(event);
+  }, [handleEditEvent]);
+
+  // Deep links from notifications jump to the event and open it
+  const linkedEventId = searchParams.get('event');
+  const linkedEvent = useMemo(
+    () => (linkedEventId ? events.find(e => e._id === linkedEventId) : undefined),
+    [events, linkedEventId]
+  );
+
+  useEffect(() => {
+    if (!linkedEventId || isLoading) return;
+
+    if (linkedEvent) {
+      setCurrentDate(toZonedTime(linkedEvent.startTime, timeZone));
+      handleCalendarEventClick(linkedEvent);
+    } else if (isFetching || getQueryState(queries.events.key).isFetching) {
+      // The cached list may predate the event, so wait for the refresh before giving up.
+      // The store is read too, as a refresh started this commit is not in `isFetching` yet.
+      return;
+    } else {
+      toast.error('That event no longer exists');
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedEventId, linkedEvent, isLoading, isFetching, timeZone, handleCalendarEventClick, setSearchParams]);
+
+  const handleEventReschedule = async (event: Event, start: Date, end: Date, scope?: RecurrenceScope) => {
+    if (event.seriesId && !scope) {
+      setReschedulingSeriesEvent({ event, start, end });
+      return;
+    }
+
+    if (scope && scope !== 'this') {
+      await handleRescheduleSeries(event, start, end, scope);
+      return;
+    }
+
+    // Show the new position right away and put the event back if the server refuses it
+    try {
+      const response = await runOptimistic({
+        id: event._id,
+        apply: () => {
+          replaceEvent({ ...event, startTime: start.toISOString(), endTime: end.toISOString() });
+          return () => replaceEvent(event);
+        },
+        mutate: () => offlineEventsAPI.updateEvent(event._id, {
+          title: event.title,
+          startTime: start.toISOString(),
+          endTime: end.toISOString(),
+          status: event.status,
+        }, scope),
+        commit: (response) => replaceEvent(response.event),
+      });
+      toast.success(response.queued ? response.message : 'Event rescheduled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reschedule event');
+    }
+  };
+
+  // Moves several occurrences at once, so the list is reloaded rather than patched
+  const handleRescheduleSeries = async (event: Event, start: Date, end: Date, scope: RecurrenceScope) => {
+    try {
+      // Status is per occurrence, so a series move leaves it alone
+      const response = await offlineEventsAPI.updateEvent(event._id, {
+        title: event.title,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+      }, scope);
+      if (response.queued) {
+        replaceEvent(response.event);
+        toast.success(response.message);
+      } else {
+        refreshEvents();
+        toast.success('Recurring events rescheduled');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reschedule event');
+    }
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
+  // The calendar grid works in wall-clock times of the preferred time zone, so
+  // its dates are converted back to real instants before they reach the handlers
+  const zonedEvents = useMemo(() => events.map(event => ({
+    ...event,
+    startTime: toZonedTime(event.startTime, timeZone).toISOString(),
+    endTime: toZonedTime(event.endTime, timeZone).toISOString(),
+  })), [events, timeZone]);
+
+  const findOriginalEvent = (zonedEvent: Event) => events.find(e => e._id === zonedEvent._id) ?? zonedEvent;
+
+  const handleDrillDown = (day: Date) => {
+    setCurrentDate(day);
+    setView('day');
+  };
+
+  const handleDeleteEvent = async (event: Event) => {
+    if (event.seriesId) {
+      setDeletingSeriesEvent(event);
+      return;
+    }
+
     if (!confirm('Are you sure you want to delete this event?')) return;
 
     try {
-      await eventsAPI.deleteEvent(eventId);
-      setEvents(events.filter(e => e._id !== eventId));
-      toast.success('Event deleted successfully');
+      const response = await runOptimistic({
+        id: event._id,
+        apply: () => removeEvent(event),
+        mutate: () => offlineEventsAPI.deleteEvent(event._id),
+      });
+      toast.success(response.queued ? response.message : 'Event deleted successfully');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete event');
+    }
+  };
+
+  const handleDeleteSeriesEvent = async (event: Event, scope: RecurrenceScope) => {
+    setDeletingSeriesEvent(null);
+
+    try {
+      let response;
+      if (scope === 'this') {
+        response = await runOptimistic({
+          id: event._id,
+          apply: () => removeEvent(event),
+          mutate: () => offlineEventsAPI.deleteEvent(event._id, scope),
+        });
+      } else {
+        response = await offlineEventsAPI.deleteEvent(event._id, scope);
+        if (response.queued) {
+          // Hide the occurrences locally until the server expands the deletion
+          setEvents(prev => prev.filter(e => e.seriesId !== event.seriesId
+            || (scope === 'following' && e.startTime < event.startTime)));
+        } else {
+          refreshEvents();
+        }
+      }
+      if (response.queued) {
+        toast.success(response.message);
+      } else {
+        toast.success(scope === 'this' ? 'Event deleted successfully' : 'Recurring events deleted successfully');
+      }
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to delete event');
     }
@@ -61,22 +233,33 @@ const Dashboard: React.FC = () => {
     const newStatus = event.status === EventStatus.SWAPPABLE ? EventStatus.BUSY : EventStatus.SWAPPABLE;
     
     try {
-      const response = await eventsAPI.updateEventStatus(event._id, newStatus);
-      setEvents(events.map(e => e._id === event._id ? response.event : e));
-      toast.success(`Event marked as ${newStatus.toLowerCase()}`);
+      const response = await runOptimistic({
+        id: event._id,
+        apply: () => {
+          replaceEvent({ ...event, status: newStatus });
+          return () => replaceEvent(event);
+        },
+        mutate: () => offlineEventsAPI.updateEventStatus(event._id, newStatus),
+        commit: (response) => replaceEvent(response.event),
+      });
+      toast.success(response.queued ? response.message : `Event marked as ${newStatus.toLowerCase()}`);
     } catch (error: any) {
       toast.error(error.response?.data?.error || 'Failed to update event');
     }
   };
 
-  const handleEventSaved = (savedEvent: Event) => {
-    if (editingEvent) {
-      setEvents(events.map(e => e._id === savedEvent._id ? savedEvent : e));
+  const handleEventSaved = (savedEvent: Event, seriesChanged?: boolean) => {
+    if (seriesChanged) {
+      // A series edit can add, move or remove several occurrences at once
+      refreshEvents();
+    } else if (editingEvent) {
+      setEvents(prev => prev.map(e => e._id === savedEvent._id ? savedEvent : e));
     } else {
-      setEvents([...events, savedEvent]);
+      setEvents(prev => [...prev, savedEvent]);
     }
     setShowModal(false);
     setEditingEvent(null);
+    setSelectedRange(null);
   };
 
   const getStatusBadge = (status: EventStatus) => {
@@ -93,7 +276,9 @@ const Dashboard: React.FC = () => {
     );
   };
 
-  const sortedEvents = events.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  const overlappingIds = useMemo(() => getOverlappingEventIds(events), [events]);
+
+  const sortedEvents = [...events].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
 
   if (isLoading) {
     return (
@@ -115,7 +300,41 @@ const Dashboard: React.FC = () => {
               Manage your events and mark them as swappable for others to request.
             </p>
           </div>
-          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex sm:flex-none sm:items-center sm:space-x-4">
+            <div className="inline-flex rounded-md shadow-sm">
+              {VIEW_OPTIONS.map((option, index) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setView(option.value)}
+                  className={`px-3 py-2 text-sm font-medium border border-gray-300 ${
+                    index === 0 ? 'rounded-l-md' : '-ml-px'
+                  } ${index === VIEW_OPTIONS.length - 1 ? 'rounded-r-md' : ''} ${
+                    view === option.value
+                      ? 'bg-primary-50 text-primary-700 z-10'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 sm:w-auto"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowExportModal(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 sm:w-auto"
+            >
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+              Export
+            </button>
             <button
               type="button"
               onClick={handleCreateEvent}
@@ -127,117 +346,206 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
-        <div className="mt-8 flow-root">
-          <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
-            <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
-              {events.length === 0 ? (
-                <div className="text-center py-12">
-                  <div className="mx-auto h-12 w-12 text-gray-400">
-                    <svg fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                    </svg>
-                  </div>
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">No events</h3>
-                  <p className="mt-1 text-sm text-gray-500">Get started by creating your first event.</p>
-                  <div className="mt-6">
-                    <button
-                      type="button"
-                      onClick={handleCreateEvent}
-                      className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-                    >
-                      <PlusIcon className="h-4 w-4 mr-2" />
-                      Add Event
-                    </button>
+        {view !== 'list' ? (
+          <div className="mt-8">
+            <div className="flex justify-end mb-2">
+              <label className="flex items-center text-sm text-gray-600">
+                Snap to
+                <select
+                  value={snapMinutes}
+                  onChange={(e) => setSnapMinutes(Number(e.target.value))}
+                  className="ml-2 border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                >
+                  {SNAP_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes} min</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <CalendarView
+              events={zonedEvents}
+              view={view}
+              date={currentDate}
+              now={toZonedTime(new Date(), timeZone)}
+              onDateChange={setCurrentDate}
+              onDrillDown={handleDrillDown}
+              onEventClick={(event) => handleCalendarEventClick(findOriginalEvent(event))}
+              onSlotSelect={(start, end) => handleSlotSelect(fromZonedTime(start, timeZone), fromZonedTime(end, timeZone))}
+              onEventChange={(event, start, end) =>
+                handleEventReschedule(findOriginalEvent(event), fromZonedTime(start, timeZone), fromZonedTime(end, timeZone))
+              }
+              snapMinutes={snapMinutes}
+              pendingIds={unsyncedIds}
+            />
+          </div>
+        ) : (
+          <div className="mt-8 flow-root">
+            <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+              <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
+                {events.length === 0 ? (
+                  <div className="text-center py-12">
+                    <div className="mx-auto h-12 w-12 text-gray-400">
+                      <svg fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    </div>
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">No events</h3>
+                    <p className="mt-1 text-sm text-gray-500">Get started by creating your first event.</p>
+                    <div className="mt-6">
+                      <button
+                        type="button"
+                        onClick={handleCreateEvent}
+                        className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                      >
+                        <PlusIcon className="h-4 w-4 mr-2" />
+                        Add Event
+                      </button>
+                    </div>
                   </div>
-                </div>
-              ) : (
-                <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                  <table className="min-w-full divide-y divide-gray-300">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Event
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Date & Time
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Status
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Actions
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {sortedEvents.map((event) => (
-                        <tr key={event._id} className={isAfter(new Date(), parseISO(event.endTime)) ? 'opacity-60' : ''}>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{event.title}</div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-gray-900">
-                              {format(parseISO(event.startTime), 'MMM d, yyyy')}
-                            </div>
-                            <div className="text-sm text-gray-500">
-                              {format(parseISO(event.startTime), 'h:mm a')} - {format(parseISO(event.endTime), 'h:mm a')}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            {getStatusBadge(event.status)}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                            {event.status !== EventStatus.SWAP_PENDING && (
-                              <>
-                                <button
-                                  onClick={() => handleToggleSwappable(event)}
-                                  className={`inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded ${
-                                    event.status === EventStatus.SWAPPABLE
-                                      ? 'text-gray-700 bg-gray-100 hover:bg-gray-200'
-                                      : 'text-green-700 bg-green-100 hover:bg-green-200'
-                                  }`}
-                                >
-                                  {event.status === EventStatus.SWAPPABLE ? 'Make Busy' : 'Make Swappable'}
-                                </button>
-                                <button
-                                  onClick={() => handleEditEvent(event)}
-                                  className="text-primary-600 hover:text-primary-900"
-                                >
-                                  <PencilIcon className="h-4 w-4" />
-                                </button>
-                                <button
-                                  onClick={() => handleDeleteEvent(event._id)}
-                                  className="text-red-600 hover:text-red-900"
-                                >
-                                  <TrashIcon className="h-4 w-4" />
-                                </button>
-                              </>
-                            )}
-                            {event.status === EventStatus.SWAP_PENDING && (
-                              <span className="text-xs text-gray-500">Swap pending</span>
-                            )}
-                          </td>
+                ) : (
+                  <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                    <table className="min-w-full divide-y divide-gray-300">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Event
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Date & Time
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Status
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Actions
+                          </th>
                         </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              )}
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {sortedEvents.map((event) => (
+                          <tr
+                            key={event._id}
+                            className={`${isAfter(new Date(), parseISO(event.endTime)) ? 'opacity-60' : ''} ${
+                              overlappingIds.has(event._id) ? 'bg-yellow-50' : ''
+                            }`}
+                          >
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="flex items-center text-sm font-medium text-gray-900">
+                                {event.title}
+                                {event.seriesId && (
+                                  <ArrowPathIcon className="h-4 w-4 ml-1 text-gray-400" title="Recurring event" />
+                                )}
+                                {overlappingIds.has(event._id) && (
+                                  <ExclamationTriangleIcon className="h-4 w-4 ml-1 text-yellow-500" title="Overlaps another event" />
+                                )}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm text-gray-900">
+                                {formatDate(event.startTime, 'MMM d, yyyy')}
+                              </div>
+                              <div className="text-sm text-gray-500">
+                                {formatDate(event.startTime, 'h:mm a')} - {formatDate(event.endTime, 'h:mm a')}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {getStatusBadge(event.status)}
+                              {pendingIds.has(event._id) ? (
+                                <span className="ml-2 text-xs text-gray-400 animate-pulse">Saving...</span>
+                              ) : queuedEventIds.has(event._id) && (
+                                <span className="ml-2 text-xs text-yellow-700">Not synced</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                              {event.status !== EventStatus.SWAP_PENDING && (
+                                <>
+                                  <button
+                                    onClick={() => handleToggleSwappable(event)}
+                                    className={`inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded ${
+                                      event.status === EventStatus.SWAPPABLE
+                                        ? 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+                                        : 'text-green-700 bg-green-100 hover:bg-green-200'
+                                    }`}
+                                  >
+                                    {event.status === EventStatus.SWAPPABLE ? 'Make Busy' : 'Make Swappable'}
+                                  </button>
+                                  <button
+                                    onClick={() => handleEditEvent(event)}
+                                    className="text-primary-600 hover:text-primary-900"
+                                  >
+                                    <PencilIcon className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteEvent(event)}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    <TrashIcon className="h-4 w-4" />
+                                  </button>
+                                </>
+                              )}
+                              {event.status === EventStatus.SWAP_PENDING && (
+                                <span className="text-xs text-gray-500">Swap pending</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
 
       {showModal && (
         <EventModal
           event={editingEvent}
+          initialRange={selectedRange}
+          existingEvents={events}
           onSave={handleEventSaved}
           onClose={() => {
             setShowModal(false);
             setEditingEvent(null);
+            setSelectedRange(null);
           }}
         />
       )}
+
+      {showImportModal && (
+        <ImportEventsModal
+          existingEvents={events}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {showExportModal && (
+        <ExportEventsModal
+          events={events}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
+      {reschedulingSeriesEvent && (
+        <RecurrenceScopeDialog
+          action="edit"
+          onSelect={(scope) => {
+            const { event, start, end } = reschedulingSeriesEvent;
+            setReschedulingSeriesEvent(null);
+            handleEventReschedule(event, start, end, scope);
+          }}
+          onClose={() => setReschedulingSeriesEvent(null)}
+        />
+      )}
+
+      {deletingSeriesEvent && (
+        <RecurrenceScopeDialog
+          action="delete"
+          onSelect={(scope) => handleDeleteSeriesEvent(deletingSeriesEvent, scope)}
+          onClose={() => setDeletingSeriesEvent(null)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import {
+  ArrowsRightLeftIcon,
+  ArrowUpRightIcon,
+  ArrowDownLeftIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ArrowUturnLeftIcon,
+  ClockIcon,
+  KeyIcon,
+} from '@heroicons/react/24/outline';
+import Layout from '../components/Layout';
+import SlotLineage from '../components/SlotLineage';
+import { ActivityEntry, ActivityType, Event, User } from '../types';
+import { queries } from '../utils/queries';
+import { useQuery } from '../hooks/useQuery';
+import { ACTIVITY_CATEGORIES, ACTIVITY_LABELS, ActivityCategory, buildTimeline, getUserName } from '../utils/activity';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useAuth } from '../contexts/AuthContext';
+
+const ACTIVITY_ICONS: Record<ActivityType, { icon: React.ElementType; className: string }> = {
+  [ActivityType.REQUEST_SENT]: { icon: ArrowUpRightIcon, className: 'bg-blue-100 text-blue-600' },
+  [ActivityType.REQUEST_RECEIVED]: { icon: ArrowDownLeftIcon, className: 'bg-blue-100 text-blue-600' },
+  [ActivityType.REQUEST_COUNTERED]: { icon: ArrowsRightLeftIcon, className: 'bg-yellow-100 text-yellow-600' },
+  [ActivityType.REQUEST_ACCEPTED]: { icon: CheckCircleIcon, className: 'bg-green-100 text-green-600' },
+  [ActivityType.REQUEST_REJECTED]: { icon: XCircleIcon, className: 'bg-red-100 text-red-600' },
+  [ActivityType.REQUEST_CANCELLED]: { icon: ArrowUturnLeftIcon, className: 'bg-gray-100 text-gray-600' },
+  [ActivityType.REQUEST_EXPIRED]: { icon: ClockIcon, className: 'bg-gray-100 text-gray-600' },
+  [ActivityType.OWNERSHIP_CHANGED]: { icon: KeyIcon, className: 'bg-primary-50 text-primary-600' },
+};
+
+const inputClassName =
+  'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+const History: React.FC = () => {
+  const incomingQuery = useQuery(queries.incomingRequests);
+  const outgoingQuery = useQuery(queries.outgoingRequests);
+  const activityQuery = useQuery(queries.activity);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { formatDate } = usePreferences();
+  const { user } = useAuth();
+
+  const category = searchParams.get('category') as ActivityCategory | null;
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+  const counterpart = searchParams.get('with') ?? '';
+  const lineageSlotId = searchParams.get('slot');
+
+  const isLoading = incomingQuery.isLoading || outgoingQuery.isLoading || activityQuery.isLoading;
+  const hasError = Boolean(incomingQuery.error || outgoingQuery.error || activityQuery.error);
+
+  useEffect(() => {
+    if (hasError) toast.error('Failed to fetch swap history');
+  }, [hasError]);
+
+  const timeline = useMemo(
+    () => buildTimeline(incomingQuery.data ?? [], outgoingQuery.data ?? [], activityQuery.data ?? []),
+    [incomingQuery.data, outgoingQuery.data, activityQuery.data]
+  );
+
+  const updateParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: key !== 'slot' });
+  };
+
+  const counterparts = useMemo(() => {
+    const byId = new Map<string, User>();
+    timeline.forEach(entry => {
+      if (entry.counterpartId && typeof entry.counterpartId !== 'string') {
+        byId.set(entry.counterpartId.id, entry.counterpartId);
+      }
+    });
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [timeline]);
+
+  const visibleEntries = useMemo(() => {
+    const types = ACTIVITY_CATEGORIES.find(option => option.value === category)?.types;
+    return timeline.filter(entry => {
+      const day = formatDate(entry.createdAt, 'yyyy-MM-dd');
+      const counterpartId = typeof entry.counterpartId === 'string' ? entry.counterpartId : entry.counterpartId?.id;
+      if (types && !types.includes(entry.type)) return false;
+      if (from && day < from) return false;
+      if (to && day > to) return false;
+      if (counterpart && counterpartId !== counterpart) return false;
+      return true;
+    });
+  }, [timeline, category, from, to, counterpart, formatDate]);
+
+  const describeEntry = (entry: ActivityEntry) => {
+    if (entry.type === ActivityType.OWNERSHIP_CHANGED) {
+      return `${getUserName(entry.fromUserId, user?.id)} → ${getUserName(entry.toUserId, user?.id)}`;
+    }
+    return entry.counterpartId ? `with ${getUserName(entry.counterpartId, user?.id)}` : '';
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-500"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">History</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Everything that happened to your swaps. Click a slot to see who has owned it.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-6 bg-white shadow-sm border border-gray-200 rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label htmlFor="historyCategory" className="block text-sm font-medium text-gray-700">
+              Activity
+            </label>
+            <select
+              id="historyCategory"
+              value={category ?? ''}
+              onChange={(e) => updateParam('category', e.target.value || null)}
+              className={inputClassName}
+            >
+              <option value="">All activity</option>
+              {ACTIVITY_CATEGORIES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="historyWith" className="block text-sm font-medium text-gray-700">
+              With
+            </label>
+            <select
+              id="historyWith"
+              value={counterpart}
+              onChange={(e) => updateParam('with', e.target.value || null)}
+              className={inputClassName}
+            >
+              <option value="">Anyone</option>
+              {counterparts.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="historyFrom" className="block text-sm font-medium text-gray-700">
+              From
+            </label>
+            <input
+              id="historyFrom"
+              type="date"
+              value={from}
+              onChange={(e) => updateParam('from', e.target.value || null)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="historyTo" className="block text-sm font-medium text-gray-700">
+              To
+            </label>
+            <input
+              id="historyTo"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateParam('to', e.target.value || null)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="mt-8">
+          {visibleEntries.length === 0 ? (
+            <div className="text-center py-12">
+              <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No activity</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {timeline.length === 0
+                  ? 'Swap requests you send or receive will show up here.'
+                  : 'Nothing matches the current filters.'}
+              </p>
+            </div>
+          ) : (
+            <ul className="space-y-6">
+              {visibleEntries.map((entry, index) => {
+                const { icon: IconComponent, className } = ACTIVITY_ICONS[entry.type];
+                return (
+                  <li key={entry._id} className="relative flex space-x-3">
+                    {index < visibleEntries.length - 1 && (
+                      <span className="absolute left-4 top-8 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
+                    )}
+                    <span className={`relative h-8 w-8 rounded-full flex items-center justify-center ${className}`}>
+                      <IconComponent className="h-4 w-4" />
+                    </span>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-900">
+                          <span className="font-medium">{ACTIVITY_LABELS[entry.type]}</span>{' '}
+                          <span className="text-gray-600">{describeEntry(entry)}</span>
+                        </p>
+                        <time className="text-xs text-gray-500 whitespace-nowrap">
+                          {formatDate(entry.createdAt, 'MMM d, yyyy h:mm a')}
+                        </time>
+                      </div>
+                      <div className="mt-1 flex flex-wrap gap-2">
+                        {(entry.slotIds as Event[]).map(slot => (
+                          <button
+                            key={slot._id}
+                            type="button"
+                            onClick={() => updateParam('slot', slot._id)}
+                            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            title="Show slot lineage"
+                          >
+                            {slot.title} • {formatDate(slot.startTime, 'MMM d, h:mm a')}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {lineageSlotId && (
+        <SlotLineage slotId={lineageSlotId} onClose={() => updateParam('slot', null)} />
+      )}
+    </Layout>
+  );
+};
+
+export default History;
@@ -16,7 +16,11 @@ const Login: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   
-  const from = location.state?.from?.pathname || '/dashboard';
+  // Set by ProtectedRoute, including when the session expired mid-visit
+  const fromLocation = location.state?.from;
+  const from = fromLocation?.pathname
+    ? `${fromLocation.pathname}${fromLocation.search ?? ''}${fromLocation.hash ?? ''}`
+    : '/dashboard';
 
   const {
     register,
@@ -28,7 +32,7 @@ const Login: React.FC = () => {
     setIsLoading(true);
     try {
       const response = await authAPI.login(data);
-      login(response.token, response.user);
+      login(response.token, response.user, response.refreshToken);
       toast.success('Login successful!');
       navigate(from, { replace: true });
     } catch (error: any) {
@@ -1,41 +1,106 @@
-import React, { useState, useEffect } from 'react';
-import { format, parseISO } from 'date-fns';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
-import { ArrowsRightLeftIcon, UserIcon } from '@heroicons/react/24/outline';
+import { ArrowsRightLeftIcon, UserIcon, StarIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
 import Layout from '../components/Layout';
 import SwapRequestModal from '../components/SwapRequestModal';
-import { Event, EventStatus, User } from '../types';
-import { swapsAPI, eventsAPI } from '../utils/api';
+import OwnerTimeNote from '../components/OwnerTimeNote';
+import MarketplaceFilters from '../components/MarketplaceFilters';
+import SwapChainSuggestions from '../components/SwapChainSuggestions';
+import { Event, EventStatus, SlotWish, User } from '../types';
+import { wishlistAPI, chainSwapsAPI } from '../utils/api';
+import { queries, queryKeys, SWAP_CHANGE_KEYS } from '../utils/queries';
+import { invalidateQueries } from '../utils/queryCache';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../hooks/useSocket';
+import { useQuery } from '../hooks/useQuery';
+import { SwapChain, findSwapChains, getSlotOwnerId } from '../utils/swapChains';
+import {
+  SlotFilters,
+  applySlotFilters,
+  getDurationMinutes,
+  parseSlotFilters,
+  serializeSlotFilters,
+} from '../utils/slotFilters';
 
 const Marketplace: React.FC = () => {
-  const [swappableSlots, setSwappableSlots] = useState<Event[]>([]);
-  const [mySwappableSlots, setMySwappableSlots] = useState<Event[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const swappableSlotsQuery = useQuery(queries.swappableSlots);
+  const myEventsQuery = useQuery(queries.events);
+  const wishesQuery = useQuery(queries.wishes);
   const [showModal, setShowModal] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<Event | null>(null);
+  const [newSlotIds, setNewSlotIds] = useState<Set<string>>(new Set());
+  const highlightTimersRef = useRef<number[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { formatDate, timeZone } = usePreferences();
+  const { user } = useAuth();
 
-  const fetchData = async () => {
-    try {
-      const [swappableSlotsResponse, myEventsResponse] = await Promise.all([
-        swapsAPI.getSwappableSlots(),
-        eventsAPI.getEvents()
-      ]);
-      
-      setSwappableSlots(swappableSlotsResponse.slots);
-      setMySwappableSlots(
-        myEventsResponse.events.filter(event => event.status === EventStatus.SWAPPABLE)
-      );
-    } catch (error: any) {
-      toast.error('Failed to fetch marketplace data');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const filters = useMemo(() => parseSlotFilters(searchParams), [searchParams]);
+
+  const swappableSlots = swappableSlotsQuery.data ?? [];
+  const myEvents = myEventsQuery.data ?? [];
+  const wishes = wishesQuery.data ?? [];
+  const isLoading = swappableSlotsQuery.isLoading || myEventsQuery.isLoading || wishesQuery.isLoading;
+  const hasError = Boolean(swappableSlotsQuery.error || myEventsQuery.error || wishesQuery.error);
 
   useEffect(() => {
-    fetchData();
+    if (hasError) toast.error('Failed to fetch marketplace data');
+  }, [hasError]);
+
+  useEffect(() => {
+    return () => highlightTimersRef.current.forEach(timer => window.clearTimeout(timer));
   }, []);
 
+  const setSwappableSlots = (update: (prev: Event[]) => Event[]) =>
+    swappableSlotsQuery.setData(prev => update(prev ?? []));
+  const setWishes = (update: (prev: SlotWish[]) => SlotWish[]) =>
+    wishesQuery.setData(prev => update(prev ?? []));
+  const refreshMyEvents = () => invalidateQueries(queryKeys.events);
+
+  const highlightSlot = (slotId: string) => {
+    setNewSlotIds(prev => new Set(prev).add(slotId));
+    const timer = window.setTimeout(() => {
+      setNewSlotIds(prev => {
+        const next = new Set(prev);
+        next.delete(slotId);
+        return next;
+      });
+    }, 4000);
+    highlightTimersRef.current.push(timer);
+  };
+
+  // Keep the grid in step with other users so nobody requests a slot that is already gone
+  useSocket({
+    notify: false,
+    onSlotAdded: (slot) => {
+      if (getSlotOwnerId(slot) === user?.id) {
+        refreshMyEvents();
+        return;
+      }
+      setSwappableSlots(prev => [...prev.filter(item => item._id !== slot._id), slot]);
+      highlightSlot(slot._id);
+    },
+    onSlotRemoved: (slotId) => {
+      setSwappableSlots(prev => prev.filter(item => item._id !== slotId));
+      if (myEvents.some(event => event._id === slotId)) {
+        refreshMyEvents();
+      }
+    },
+    onSlotUpdated: (slot) => {
+      if (getSlotOwnerId(slot) === user?.id) {
+        refreshMyEvents();
+        return;
+      }
+      setSwappableSlots(prev =>
+        slot.status === EventStatus.SWAPPABLE
+          ? prev.map(item => (item._id === slot._id ? slot : item))
+          : prev.filter(item => item._id !== slot._id)
+      );
+    },
+  });
+
   const handleRequestSwap = (slot: Event) => {
     if (mySwappableSlots.length === 0) {
       toast.error('You need to have swappable slots to request a swap');
@@ -49,13 +114,81 @@ const Marketplace: React.FC = () => {
     setShowModal(false);
     setSelectedSlot(null);
     // Refresh data to reflect updated slot statuses
-    fetchData();
+    invalidateQueries(...SWAP_CHANGE_KEYS);
+  };
+
+  const mySwappableSlots = useMemo(
+    () => myEvents.filter(event => event.status === EventStatus.SWAPPABLE),
+    [myEvents]
+  );
+
+  const myWishIds = useMemo(
+    () => new Set(wishes.filter(wish => wish.userId === user?.id).map(wish => wish.slotId)),
+    [wishes, user]
+  );
+
+  const chains = useMemo(
+    () => (user ? findSwapChains([...swappableSlots, ...mySwappableSlots], wishes, user.id) : []),
+    [swappableSlots, mySwappableSlots, wishes, user]
+  );
+
+  const chainUsers = useMemo(() => {
+    const byId = new Map<string, User>();
+    swappableSlots.forEach(slot => {
+      const owner = slot.userId as User;
+      byId.set(owner.id, owner);
+    });
+    return byId;
+  }, [swappableSlots]);
+
+  const handleToggleWish = async (slot: Event) => {
+    try {
+      if (myWishIds.has(slot._id)) {
+        await wishlistAPI.removeWish(slot._id);
+        setWishes(prev => prev.filter(wish => !(wish.slotId === slot._id && wish.userId === user?.id)));
+      } else {
+        const response = await wishlistAPI.addWish(slot._id);
+        setWishes(prev => [...prev, response.wish]);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update your wishlist');
+    }
+  };
+
+  const handleProposeChain = async (chain: SwapChain) => {
+    try {
+      const response = await chainSwapsAPI.proposeChainSwap({
+        links: chain.links.map(link => ({ slotId: link.slot._id, toUserId: link.toUserId })),
+      });
+      toast.success(response.message);
+      invalidateQueries(queryKeys.chainSwaps, queryKeys.events, queryKeys.swappableSlots);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to propose chain swap');
+    }
   };
 
   const getSlotOwner = (slot: Event): User => {
     return slot.userId as User;
   };
 
+  const handleFiltersChange = (next: SlotFilters) => {
+    setSearchParams(serializeSlotFilters(next), { replace: true });
+  };
+
+  const owners = useMemo(() => {
+    const byId = new Map<string, User>();
+    swappableSlots.forEach(slot => {
+      const owner = getSlotOwner(slot);
+      if (owner) byId.set(owner.id, owner);
+    });
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [swappableSlots]);
+
+  const visibleSlots = useMemo(
+    () => applySlotFilters(swappableSlots, filters, timeZone),
+    [swappableSlots, filters, timeZone]
+  );
+
   if (isLoading) {
     return (
       <Layout>
@@ -73,7 +206,8 @@ const Marketplace: React.FC = () => {
           <div className="sm:flex-auto">
             <h1 className="text-2xl font-semibold text-gray-900">Marketplace</h1>
             <p className="mt-2 text-sm text-gray-700">
-              Browse swappable time slots from other users and request swaps.
+              Browse swappable time slots from other users and request swaps. Star the slots you would
+              take to discover swap chains with several people.
             </p>
           </div>
         </div>
@@ -96,6 +230,24 @@ const Marketplace: React.FC = () => {
           </div>
         )}
 
+        {user && chains.length > 0 && (
+          <SwapChainSuggestions
+            chains={chains}
+            currentUserId={user.id}
+            users={chainUsers}
+            onPropose={handleProposeChain}
+          />
+        )}
+
+        {swappableSlots.length > 0 && (
+          <div className="mt-6">
+            <MarketplaceFilters filters={filters} owners={owners} onChange={handleFiltersChange} />
+            <p className="mt-3 text-sm text-gray-500">
+              Showing {visibleSlots.length} of {swappableSlots.length} slots
+            </p>
+          </div>
+        )}
+
         <div className="mt-8 flow-root">
           <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
             <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
@@ -107,14 +259,31 @@ const Marketplace: React.FC = () => {
                     There are currently no slots available for swapping. Check back later!
                   </p>
                 </div>
+              ) : visibleSlots.length === 0 ? (
+                <div className="text-center py-12">
+                  <ArrowsRightLeftIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No matching slots</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    No slots match the current filters.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => handleFiltersChange({ timeOfDay: [], weekdays: [], sort: filters.sort })}
+                    className="mt-4 text-sm font-medium text-primary-600 hover:text-primary-700"
+                  >
+                    Clear filters
+                  </button>
+                </div>
               ) : (
                 <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-                  {swappableSlots.map((slot) => {
+                  {visibleSlots.map((slot) => {
                     const owner = getSlotOwner(slot);
                     return (
                       <div
                         key={slot._id}
-                        className="relative group bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+                        className={`relative group p-6 rounded-lg shadow-sm border hover:shadow-md transition-all duration-700 ${
+                          newSlotIds.has(slot._id) ? 'bg-primary-50 border-primary-500' : 'bg-white border-gray-200'
+                        }`}
                       >
                         <div>
                           <div className="flex items-center justify-between">
@@ -134,26 +303,38 @@ const Marketplace: React.FC = () => {
                             
                             <div className="mt-2 space-y-1">
                               <p className="text-sm text-gray-600">
-                                <span className="font-medium">Date:</span> {format(parseISO(slot.startTime), 'EEEE, MMM d, yyyy')}
+                                <span className="font-medium">Date:</span> {formatDate(slot.startTime, 'EEEE, MMM d, yyyy')}
                               </p>
                               <p className="text-sm text-gray-600">
-                                <span className="font-medium">Time:</span> {format(parseISO(slot.startTime), 'h:mm a')} - {format(parseISO(slot.endTime), 'h:mm a')}
+                                <span className="font-medium">Time:</span> {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
                               </p>
+                              <OwnerTimeNote startTime={slot.startTime} endTime={slot.endTime} owner={owner} />
                               <p className="text-sm text-gray-600">
-                                <span className="font-medium">Duration:</span> {Math.round((new Date(slot.endTime).getTime() - new Date(slot.startTime).getTime()) / (1000 * 60))} minutes
+                                <span className="font-medium">Duration:</span> {getDurationMinutes(slot)} minutes
                               </p>
                             </div>
                           </div>
 
-                          <div className="mt-6">
+                          <div className="mt-6 flex space-x-3">
                             <button
                               onClick={() => handleRequestSwap(slot)}
                               disabled={mySwappableSlots.length === 0}
-                              className="w-full flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                              className="flex-1 flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                               <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
                               Request Swap
                             </button>
+                            <button
+                              onClick={() => handleToggleWish(slot)}
+                              title={myWishIds.has(slot._id) ? 'Remove from slots you would take' : "I'd take this slot"}
+                              className="flex items-center px-3 py-2 border border-gray-300 rounded-md text-gray-500 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                            >
+                              {myWishIds.has(slot._id) ? (
+                                <StarIconSolid className="h-5 w-5 text-yellow-400" />
+                              ) : (
+                                <StarIcon className="h-5 w-5" />
+                              )}
+                            </button>
                           </div>
                         </div>
                       </div>
@@ -169,7 +350,10 @@ const Marketplace: React.FC = () => {
       {showModal && selectedSlot && (
         <SwapRequestModal
           targetSlot={selectedSlot}
+          isTargetAvailable={swappableSlots.some(slot => slot._id === selectedSlot._id)}
+          ownerSlots={swappableSlots.filter(slot => getSlotOwner(slot).id === getSlotOwner(selectedSlot).id)}
           mySwappableSlots={mySwappableSlots}
+          myEvents={myEvents}
           onSuccess={handleSwapRequested}
           onClose={() => {
             setShowModal(false);
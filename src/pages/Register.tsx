@@ -31,7 +31,7 @@ const Register: React.FC = () => {
     try {
       const { confirmPassword, ...registerData } = data;
       const response = await authAPI.register(registerData);
-      login(response.token, response.user);
+      login(response.token, response.user, response.refreshToken);
       toast.success('Registration successful!');
       navigate('/dashboard');
     } catch (error: any) {
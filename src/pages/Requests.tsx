@@ -1,71 +1,172 @@
-import React, { useState, useEffect } from 'react';
-import { format, parseISO } from 'date-fns';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { 
   CheckIcon, 
   XMarkIcon, 
   ClockIcon,
   ArrowRightIcon,
-  ArrowLeftIcon 
+  ArrowLeftIcon,
+  ArrowUturnLeftIcon,
+  ArrowsRightLeftIcon
 } from '@heroicons/react/24/outline';
 import Layout from '../components/Layout';
-import { SwapRequest, SwapRequestStatus, Event, User } from '../types';
-import { swapsAPI } from '../utils/api';
-import { useSocket } from '../hooks/useSocket';
+import OwnerTimeNote from '../components/OwnerTimeNote';
+import CounterOfferModal from '../components/CounterOfferModal';
+import RejectSwapDialog from '../components/RejectSwapDialog';
+import ChainSwapCard from '../components/ChainSwapCard';
+import Countdown from '../components/Countdown';
+import { ChainSwapStatus, SwapRequest, SwapRequestStatus, User } from '../types';
+import { swapsAPI, chainSwapsAPI } from '../utils/api';
+import { queries, queryKeys, SWAP_CHANGE_KEYS } from '../utils/queries';
+import { invalidateQueries } from '../utils/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { usePendingIds } from '../hooks/usePendingIds';
+import { runOptimistic } from '../utils/optimistic';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useAuth } from '../contexts/AuthContext';
+import { formatHours, getRequestSlots, getTotalMinutes, isAwaitingResponse, isOpenSwapRequest } from '../utils/swapRequests';
 
 const Requests: React.FC = () => {
-  const [incomingRequests, setIncomingRequests] = useState<SwapRequest[]>([]);
-  const [outgoingRequests, setOutgoingRequests] = useState<SwapRequest[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'incoming' | 'outgoing'>('incoming');
+  // Swap socket events invalidate these queries, so the lists refresh on their own
+  const incomingQuery = useQuery(queries.incomingRequests);
+  const outgoingQuery = useQuery(queries.outgoingRequests);
+  const chainSwapsQuery = useQuery(queries.chainSwaps);
+  const [activeTab, setActiveTab] = useState<'incoming' | 'outgoing' | 'chains'>('incoming');
+  const [searchParams] = useSearchParams();
+  const handledLinkRef = useRef<string | null>(null);
+  const linkedRequestId = searchParams.get('request');
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<{ request: SwapRequest; isIncoming: boolean } | null>(null);
+  const [counterTarget, setCounterTarget] = useState<{ request: SwapRequest; isIncoming: boolean } | null>(null);
+  const { formatDate } = usePreferences();
+  const { user } = useAuth();
+  const pendingIds = usePendingIds();
+
+  const incomingRequests = incomingQuery.data ?? [];
+  const outgoingRequests = outgoingQuery.data ?? [];
+  const chainSwaps = chainSwapsQuery.data ?? [];
+  const isLoading = incomingQuery.isLoading || outgoingQuery.isLoading || chainSwapsQuery.isLoading;
+  const hasError = Boolean(incomingQuery.error || outgoingQuery.error || chainSwapsQuery.error);
+
+  useEffect(() => {
+    if (hasError) toast.error('Failed to fetch swap requests');
+  }, [hasError]);
+
+  const setIncomingRequests = (update: (prev: SwapRequest[]) => SwapRequest[]) =>
+    incomingQuery.setData(prev => update(prev ?? []));
+  const setOutgoingRequests = (update: (prev: SwapRequest[]) => SwapRequest[]) =>
+    outgoingQuery.setData(prev => update(prev ?? []));
+  const refreshRequests = () => invalidateQueries(...SWAP_CHANGE_KEYS);
+
+  // Deep links from notifications pick the right tab once, then scroll the request into view
+  useEffect(() => {
+    const link = searchParams.toString();
+    if (isLoading || !link || handledLinkRef.current === link) return;
+    handledLinkRef.current = link;
+
+    if (searchParams.get('tab') === 'chains') {
+      setActiveTab('chains');
+    } else if (linkedRequestId) {
+      if (incomingRequests.some(req => req._id === linkedRequestId)) {
+        setActiveTab('incoming');
+      } else if (outgoingRequests.some(req => req._id === linkedRequestId)) {
+        setActiveTab('outgoing');
+      }
+    }
+  }, [searchParams, isLoading, incomingRequests, outgoingRequests]);
+
+  useEffect(() => {
+    if (!linkedRequestId || isLoading) return;
+    document.getElementById(`request-${linkedRequestId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [linkedRequestId, activeTab, isLoading]);
+
+  const handleRespondToRequest = async (requestId: string, accept: boolean, reason?: string) => {
+    const original = [...incomingRequests, ...outgoingRequests].find(req => req._id === requestId);
+    if (!original) return;
+
+    // Patch whichever list the request was answered in
+    const replaceRequest = (next: SwapRequest) => {
+      const update = (prev: SwapRequest[]) => prev.map(req => (req._id === requestId ? next : req));
+      setIncomingRequests(update);
+      setOutgoingRequests(update);
+    };
 
-  const fetchRequests = async () => {
     try {
-      const [incomingResponse, outgoingResponse] = await Promise.all([
-        swapsAPI.getIncomingRequests(),
-        swapsAPI.getOutgoingRequests()
-      ]);
+      const response = await runOptimistic({
+        id: requestId,
+        apply: () => {
+          replaceRequest({
+            ...original,
+            status: accept ? SwapRequestStatus.ACCEPTED : SwapRequestStatus.REJECTED,
+            rejectionReason: accept ? undefined : reason,
+          });
+          return () => replaceRequest(original);
+        },
+        mutate: () => swapsAPI.respondToSwapRequest(requestId, { accept, reason }),
+      });
+
+      toast.success(response.message);
       
-      setIncomingRequests(incomingResponse.requests);
-      setOutgoingRequests(outgoingResponse.requests);
+      // Refresh requests and the slots that changed hands
+      refreshRequests();
     } catch (error: any) {
-      toast.error('Failed to fetch swap requests');
-    } finally {
-      setIsLoading(false);
+      toast.error(error.response?.data?.error || `Failed to ${accept ? 'accept' : 'reject'} swap request`);
     }
   };
 
-  // Setup socket for real-time updates
-  useSocket({
-    onSwapRequestReceived: fetchRequests,
-    onSwapRequestResponded: fetchRequests,
-  });
+  const handleCancelRequest = async (requestId: string) => {
+    if (!window.confirm('Withdraw this swap request? Both slots will become swappable again.')) {
+      return;
+    }
 
-  useEffect(() => {
-    fetchRequests();
-  }, []);
+    setCancellingId(requestId);
+    try {
+      const response = await swapsAPI.cancelSwapRequest(requestId);
+
+      setOutgoingRequests(prev =>
+        prev.map(req => (req._id === requestId ? { ...req, status: SwapRequestStatus.CANCELLED } : req))
+      );
+
+      toast.success(response.message);
+
+      refreshRequests();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to cancel swap request');
+    } finally {
+      setCancellingId(null);
+    }
+  };
 
-  const handleRespondToRequest = async (requestId: string, accept: boolean) => {
+  const handleRespondToChainSwap = async (chainSwapId: string, approve: boolean) => {
     try {
-      const response = await swapsAPI.respondToSwapRequest(requestId, { accept });
-      
-      // Remove the request from incoming requests
-      setIncomingRequests(prev => prev.filter(req => req._id !== requestId));
-      
+      const response = await chainSwapsAPI.respondToChainSwap(chainSwapId, approve);
       toast.success(response.message);
-      
-      // Refresh requests to get updated data
-      fetchRequests();
+      invalidateQueries(queryKeys.chainSwaps, queryKeys.events, queryKeys.swappableSlots);
     } catch (error: any) {
-      toast.error(error.response?.data?.error || `Failed to ${accept ? 'accept' : 'reject'} swap request`);
+      toast.error(error.response?.data?.error || `Failed to ${approve ? 'approve' : 'decline'} chain swap`);
     }
   };
 
+  const handleRejectConfirmed = (reason?: string) => {
+    if (!rejectTarget) return;
+    handleRespondToRequest(rejectTarget.request._id, false, reason);
+    setRejectTarget(null);
+  };
+
+  const handleCounterSent = () => {
+    setCounterTarget(null);
+    invalidateQueries(queryKeys.swapRequests, queryKeys.activity);
+  };
+
   const getStatusBadge = (status: SwapRequestStatus) => {
     const styles = {
       [SwapRequestStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
+      [SwapRequestStatus.COUNTERED]: 'bg-blue-100 text-blue-800',
       [SwapRequestStatus.ACCEPTED]: 'bg-green-100 text-green-800',
       [SwapRequestStatus.REJECTED]: 'bg-red-100 text-red-800',
+      [SwapRequestStatus.CANCELLED]: 'bg-gray-100 text-gray-800',
+      [SwapRequestStatus.EXPIRED]: 'bg-gray-100 text-gray-800',
     };
 
     return (
@@ -78,11 +179,16 @@ const Requests: React.FC = () => {
   const RequestCard: React.FC<{ request: SwapRequest; isIncoming: boolean }> = ({ request, isIncoming }) => {
     const requester = request.requesterId as User;
     const targetUser = request.targetUserId as User;
-    const requesterSlot = request.requesterSlotId as Event;
-    const targetSlot = request.targetSlotId as Event;
+    const { requesterSlots, targetSlots } = getRequestSlots(request);
+    const otherUser = isIncoming ? requester : targetUser;
+    const awaitingMe = isAwaitingResponse(request, isIncoming);
+    const offers = request.offers ?? [];
 
     return (
-      <div className="bg-white shadow rounded-lg p-6">
+      <div
+        id={`request-${request._id}`}
+        className={`bg-white shadow rounded-lg p-6 ${request._id === linkedRequestId ? 'ring-2 ring-primary-500' : ''}`}
+      >
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-3">
             <div className="flex-shrink-0">
@@ -97,14 +203,36 @@ const Requests: React.FC = () => {
                 {isIncoming ? requester.name : targetUser.name}
               </p>
               <p className="text-sm text-gray-500">
-                {format(parseISO(request.createdAt), 'MMM d, yyyy at h:mm a')}
+                {formatDate(request.createdAt, 'MMM d, yyyy at h:mm a')}
               </p>
             </div>
           </div>
-          {getStatusBadge(request.status)}
+          <div className="flex flex-col items-end space-y-1">
+            <div className="flex items-center">
+              {pendingIds.has(request._id) && (
+                <span className="mr-2 text-xs text-gray-400 animate-pulse">Saving...</span>
+              )}
+              {getStatusBadge(request.status)}
+            </div>
+            {isOpenSwapRequest(request) && request.expiresAt && (
+              <Countdown expiresAt={request.expiresAt} onExpire={refreshRequests} />
+            )}
+          </div>
         </div>
 
         <div className="space-y-4">
+          {request.message && (
+            <blockquote className="border-l-4 border-gray-200 pl-3 text-sm text-gray-700 italic">
+              {isIncoming ? `${requester.name}: ` : 'Your message: '}"{request.message}"
+            </blockquote>
+          )}
+
+          {awaitingMe && offers.length > 1 && (
+            <div className="bg-blue-50 rounded-md p-3 text-sm text-blue-800">
+              {otherUser.name} proposed a different swap. Accept it, reject it or counter again.
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Their slot (what they're offering) */}
             <div className="border rounded-lg p-4">
@@ -117,15 +245,21 @@ const Requests: React.FC = () => {
                 <h4 className="text-sm font-medium text-gray-900">
                   {isIncoming ? 'They offer' : 'You offered'}
                 </h4>
+                <span className="ml-auto text-xs text-gray-500">{formatHours(getTotalMinutes(requesterSlots))}</span>
               </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium">{requesterSlot.title}</p>
-                <p className="text-xs text-gray-600">
-                  {format(parseISO(requesterSlot.startTime), 'MMM d, yyyy')}
-                </p>
-                <p className="text-xs text-gray-600">
-                  {format(parseISO(requesterSlot.startTime), 'h:mm a')} - {format(parseISO(requesterSlot.endTime), 'h:mm a')}
-                </p>
+              <div className="space-y-3">
+                {requesterSlots.map(slot => (
+                  <div key={slot._id} className="space-y-1">
+                    <p className="text-sm font-medium">{slot.title}</p>
+                    <p className="text-xs text-gray-600">
+                      {formatDate(slot.startTime, 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                    </p>
+                    <OwnerTimeNote startTime={slot.startTime} endTime={slot.endTime} owner={requester} />
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -140,21 +274,48 @@ const Requests: React.FC = () => {
                 <h4 className="text-sm font-medium text-gray-900">
                   {isIncoming ? 'For your' : 'They have'}
                 </h4>
+                <span className="ml-auto text-xs text-gray-500">{formatHours(getTotalMinutes(targetSlots))}</span>
               </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium">{targetSlot.title}</p>
-                <p className="text-xs text-gray-600">
-                  {format(parseISO(targetSlot.startTime), 'MMM d, yyyy')}
-                </p>
-                <p className="text-xs text-gray-600">
-                  {format(parseISO(targetSlot.startTime), 'h:mm a')} - {format(parseISO(targetSlot.endTime), 'h:mm a')}
-                </p>
+              <div className="space-y-3">
+                {targetSlots.map(slot => (
+                  <div key={slot._id} className="space-y-1">
+                    <p className="text-sm font-medium">{slot.title}</p>
+                    <p className="text-xs text-gray-600">
+                      {formatDate(slot.startTime, 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {formatDate(slot.startTime, 'h:mm a')} - {formatDate(slot.endTime, 'h:mm a')}
+                    </p>
+                    <OwnerTimeNote startTime={slot.startTime} endTime={slot.endTime} owner={targetUser} />
+                  </div>
+                ))}
               </div>
             </div>
           </div>
 
-          {/* Action buttons for incoming pending requests */}
-          {isIncoming && request.status === SwapRequestStatus.PENDING && (
+          {offers.length > 1 && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600 hover:text-gray-900">
+                Negotiation history ({offers.length} offers)
+              </summary>
+              <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-4">
+                {offers.map((offer, index) => {
+                  const proposer = offer.proposedBy as User;
+                  const offerSlots = getRequestSlots(offer);
+                  return (
+                    <li key={`${offer.createdAt}-${index}`} className="text-gray-600">
+                      <span className="font-medium text-gray-900">{proposer.name}</span>
+                      {' '}({formatDate(offer.createdAt, 'MMM d, h:mm a')}):{' '}
+                      {offerSlots.requesterSlots.map(slot => slot.title).join(', ')} ⇄ {offerSlots.targetSlots.map(slot => slot.title).join(', ')}
+                    </li>
+                  );
+                })}
+              </ol>
+            </details>
+          )}
+
+          {/* Action buttons for whoever has to answer the latest offer */}
+          {awaitingMe && (
             <div className="flex space-x-3">
               <button
                 onClick={() => handleRespondToRequest(request._id, true)}
@@ -164,25 +325,57 @@ const Requests: React.FC = () => {
                 Accept Swap
               </button>
               <button
-                onClick={() => handleRespondToRequest(request._id, false)}
+                onClick={() => setRejectTarget({ request, isIncoming })}
                 className="flex-1 inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
               >
                 <XMarkIcon className="h-4 w-4 mr-2" />
                 Reject
               </button>
+              <button
+                onClick={() => setCounterTarget({ request, isIncoming })}
+                className="flex-1 inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+              >
+                <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
+                Counter
+              </button>
+            </div>
+          )}
+
+          {isIncoming && request.status === SwapRequestStatus.COUNTERED && (
+            <p className="text-center text-sm text-gray-600">
+              Waiting for {requester.name} to respond to your counter-offer
+            </p>
+          )}
+
+          {/* Cancel button for outgoing requests that are still open, including countered ones */}
+          {!isIncoming && isOpenSwapRequest(request) && (
+            <div className="flex">
+              <button
+                onClick={() => handleCancelRequest(request._id)}
+                disabled={cancellingId === request._id}
+                className="flex-1 inline-flex justify-center items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ArrowUturnLeftIcon className="h-4 w-4 mr-2" />
+                {cancellingId === request._id ? 'Cancelling...' : 'Cancel Request'}
+              </button>
             </div>
           )}
 
           {/* Status message for non-pending requests */}
-          {request.status !== SwapRequestStatus.PENDING && (
+          {!isOpenSwapRequest(request) && (
             <div className="text-center py-2">
               <p className="text-sm text-gray-600">
-                {request.status === SwapRequestStatus.ACCEPTED ? (
-                  '✅ Swap completed successfully!'
-                ) : (
-                  '❌ Swap was rejected'
-                )}
+                {request.status === SwapRequestStatus.ACCEPTED
+                  ? '✅ Swap completed successfully!'
+                  : request.status === SwapRequestStatus.CANCELLED
+                    ? `↩️ ${isIncoming ? 'Request was withdrawn' : 'You withdrew this request'}`
+                    : request.status === SwapRequestStatus.EXPIRED
+                      ? '⌛ Request expired before it was answered'
+                      : '❌ Swap was rejected'}
               </p>
+              {request.status === SwapRequestStatus.REJECTED && request.rejectionReason && (
+                <p className="mt-1 text-sm text-gray-500">Reason: {request.rejectionReason}</p>
+              )}
             </div>
           )}
         </div>
@@ -200,7 +393,11 @@ const Requests: React.FC = () => {
     );
   }
 
-  const pendingIncoming = incomingRequests.filter(req => req.status === SwapRequestStatus.PENDING);
+  const pendingIncoming = incomingRequests.filter(req => isAwaitingResponse(req, true));
+  const pendingOutgoing = outgoingRequests.filter(req => isAwaitingResponse(req, false));
+  const pendingChains = chainSwaps.filter(
+    chain => chain.status === ChainSwapStatus.PENDING && !!user && !chain.approvedBy.includes(user.id)
+  );
 
   return (
     <Layout>
@@ -242,6 +439,26 @@ const Requests: React.FC = () => {
                 } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm`}
               >
                 Outgoing
+                {pendingOutgoing.length > 0 && (
+                  <span className="ml-2 bg-red-100 text-red-600 py-0.5 px-2 rounded-full text-xs">
+                    {pendingOutgoing.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('chains')}
+                className={`${
+                  activeTab === 'chains'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm`}
+              >
+                Chains
+                {pendingChains.length > 0 && (
+                  <span className="ml-2 bg-red-100 text-red-600 py-0.5 px-2 rounded-full text-xs">
+                    {pendingChains.length}
+                  </span>
+                )}
               </button>
             </nav>
           </div>
@@ -265,6 +482,27 @@ const Requests: React.FC = () => {
                 ))
               )}
             </div>
+          ) : activeTab === 'chains' ? (
+            <div className="space-y-6">
+              {chainSwaps.length === 0 || !user ? (
+                <div className="text-center py-12">
+                  <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No chain swaps</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Star slots you would take in the Marketplace to discover swaps between three or more people.
+                  </p>
+                </div>
+              ) : (
+                chainSwaps.map((chainSwap) => (
+                  <ChainSwapCard
+                    key={chainSwap._id}
+                    chainSwap={chainSwap}
+                    currentUserId={user.id}
+                    onRespond={handleRespondToChainSwap}
+                  />
+                ))
+              )}
+            </div>
           ) : (
             <div className="space-y-6">
               {outgoingRequests.length === 0 ? (
@@ -284,6 +522,23 @@ const Requests: React.FC = () => {
           )}
         </div>
       </div>
+
+      {rejectTarget && (
+        <RejectSwapDialog
+          recipientName={((rejectTarget.isIncoming ? rejectTarget.request.requesterId : rejectTarget.request.targetUserId) as User).name}
+          onConfirm={handleRejectConfirmed}
+          onClose={() => setRejectTarget(null)}
+        />
+      )}
+
+      {counterTarget && (
+        <CounterOfferModal
+          request={counterTarget.request}
+          isIncoming={counterTarget.isIncoming}
+          onSuccess={handleCounterSent}
+          onClose={() => setCounterTarget(null)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import Layout from '../components/Layout';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { NotificationChannel, NotificationEventType, QuietHours } from '../types';
+import { getBrowserTimeZone, getTimeZoneAbbreviation, listTimeZones } from '../utils/timezone';
+import {
+  DesktopPermission,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  getDesktopPermission,
+  isWithinQuietHours,
+  playNotificationSound,
+  requestDesktopPermission,
+} from '../utils/notify';
+
+const Settings: React.FC = () => {
+  const { preferences, updatePreferences, formatDate } = usePreferences();
+  const [desktopPermission, setDesktopPermission] = useState<DesktopPermission>(getDesktopPermission);
+  const timeZones = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(preferences.timeZone) ? zones : [preferences.timeZone, ...zones];
+  }, [preferences.timeZone]);
+  const browserTimeZone = getBrowserTimeZone();
+
+  const handleRequestPermission = async () => {
+    const permission = await requestDesktopPermission();
+    setDesktopPermission(permission);
+    if (permission === 'denied') {
+      toast.error('Desktop notifications are blocked in your browser settings');
+    }
+    return permission;
+  };
+
+  const handleToggleChannel = async (type: NotificationEventType, channel: NotificationChannel) => {
+    const current = preferences.notificationChannels[type] ?? [];
+    const enabling = !current.includes(channel);
+
+    if (enabling && channel === 'desktop' && desktopPermission !== 'granted') {
+      const permission = await handleRequestPermission();
+      if (permission !== 'granted') return;
+    }
+    if (enabling && channel === 'sound') {
+      playNotificationSound();
+    }
+
+    updatePreferences({
+      notificationChannels: {
+        ...preferences.notificationChannels,
+        [type]: enabling ? [...current, channel] : current.filter(item => item !== channel),
+      },
+    });
+  };
+
+  const updateQuietHours = (changes: Partial<QuietHours>) => {
+    updatePreferences({ quietHours: { ...preferences.quietHours, ...changes } });
+  };
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Settings</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Choose how SlotSwapper shows times and notifies you.
+            </p>
+          </div>
+        </div>
+
+        <div className="mt-8 bg-white shadow rounded-lg p-6 space-y-4 max-w-2xl">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Time zone</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              All dates and times are shown and entered in this time zone.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="timeZone" className="block text-sm font-medium text-gray-700">
+              Time zone
+            </label>
+            <select
+              id="timeZone"
+              value={preferences.timeZone}
+              onChange={(e) => updatePreferences({ timeZone: e.target.value })}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')} ({getTimeZoneAbbreviation(zone)})
+                </option>
+              ))}
+            </select>
+            <p className="mt-2 text-sm text-gray-500">
+              Current time: {formatDate(new Date(), 'EEEE, MMM d, h:mm a')}
+            </p>
+          </div>
+
+          {preferences.timeZone !== browserTimeZone && (
+            <button
+              type="button"
+              onClick={() => updatePreferences({ timeZone: browserTimeZone })}
+              className="text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              Use this device's time zone ({browserTimeZone.replace(/_/g, ' ')})
+            </button>
+          )}
+        </div>
+
+        <div className="mt-8 bg-white shadow rounded-lg p-6 space-y-6 max-w-2xl">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Notifications</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Choose how each kind of swap update reaches you. Desktop notifications appear while
+              SlotSwapper is open in a background tab.
+            </p>
+          </div>
+
+          {desktopPermission === 'unsupported' ? (
+            <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+              This browser does not support desktop notifications.
+            </div>
+          ) : desktopPermission === 'denied' ? (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              Desktop notifications are blocked. Allow them for this site in your browser settings to use them.
+            </div>
+          ) : desktopPermission === 'default' && (
+            <div className="rounded-md bg-primary-50 p-3 flex items-center justify-between">
+              <p className="text-sm text-primary-700">Allow desktop notifications to get alerts in the background.</p>
+              <button
+                type="button"
+                onClick={handleRequestPermission}
+                className="ml-4 inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+              >
+                Allow
+              </button>
+            </div>
+          )}
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="py-2 text-left text-sm font-medium text-gray-700">Event</th>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <th key={channel.value} className="py-2 px-3 text-center text-sm font-medium text-gray-700">
+                    {channel.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {NOTIFICATION_EVENTS.map(event => {
+                const channels = preferences.notificationChannels[event.type] ?? [];
+                return (
+                  <tr key={event.type}>
+                    <td className="py-2 text-sm text-gray-900">
+                      {event.label}
+                      {channels.length === 0 && <span className="ml-2 text-xs text-gray-400">Off</span>}
+                    </td>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <td key={channel.value} className="py-2 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={channels.includes(channel.value)}
+                          disabled={channel.value === 'desktop' && desktopPermission === 'unsupported'}
+                          onChange={() => handleToggleChannel(event.type, channel.value)}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500 disabled:opacity-50"
+                          aria-label={`${event.label}: ${channel.label}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="space-y-3">
+            <div className="flex items-center">
+              <input
+                id="quietHoursEnabled"
+                type="checkbox"
+                checked={preferences.quietHours.enabled}
+                onChange={(e) => updateQuietHours({ enabled: e.target.checked })}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <label htmlFor="quietHoursEnabled" className="ml-2 block text-sm font-medium text-gray-700">
+                Quiet hours
+              </label>
+            </div>
+            <p className="text-sm text-gray-500">
+              Desktop notifications and sounds are held back during quiet hours. Updates still appear in your inbox.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="quietHoursStart" className="block text-sm font-medium text-gray-700">
+                  From
+                </label>
+                <input
+                  id="quietHoursStart"
+                  type="time"
+                  value={preferences.quietHours.start}
+                  disabled={!preferences.quietHours.enabled}
+                  onChange={(e) => e.target.value && updateQuietHours({ start: e.target.value })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="quietHoursEnd" className="block text-sm font-medium text-gray-700">
+                  Until
+                </label>
+                <input
+                  id="quietHoursEnd"
+                  type="time"
+                  value={preferences.quietHours.end}
+                  disabled={!preferences.quietHours.enabled}
+                  onChange={(e) => e.target.value && updateQuietHours({ end: e.target.value })}
+                  className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            {isWithinQuietHours(preferences.quietHours, preferences.timeZone) && (
+              <p className="text-sm text-yellow-700">Quiet hours are on right now.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
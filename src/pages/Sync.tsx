@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import Layout from '../components/Layout';
+import { Event, OutboxEntry } from '../types';
+import { useOffline } from '../contexts/OfflineContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useQuery } from '../hooks/useQuery';
+import { queries } from '../utils/queries';
+import { describeMutation, getMutationEventId } from '../utils/outbox';
+
+const Sync: React.FC = () => {
+  const { isOnline, status, pendingEntries, conflicts, syncNow, retryConflict, discardConflict } = useOffline();
+  const { data: events = [] } = useQuery(queries.events);
+  const { formatDate } = usePreferences();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const describeEventTimes = (event: Pick<Event, 'startTime' | 'endTime'>) =>
+    `${formatDate(event.startTime, 'MMM d, yyyy h:mm a')} - ${formatDate(event.endTime, 'h:mm a')}`;
+
+  // What the queued change would have made of the event
+  const describeChange = ({ mutation, baseEvent }: OutboxEntry) => {
+    switch (mutation.kind) {
+      case 'create':
+        return `${mutation.data.title}, ${describeEventTimes(mutation.data)}`;
+      case 'update': {
+        const merged = { ...baseEvent, ...mutation.data } as Event;
+        return merged.startTime && merged.endTime ? `${merged.title}, ${describeEventTimes(merged)}` : merged.title;
+      }
+      case 'status':
+        return `Status ${mutation.status.replace('_', ' ').toLowerCase()}`;
+      case 'delete':
+        return 'Deleted';
+    }
+  };
+
+  const handleResolve = async (entry: OutboxEntry, action: 'retry' | 'discard') => {
+    setBusyId(entry.id);
+    try {
+      if (action === 'retry') {
+        await retryConflict(entry.id);
+      } else {
+        await discardConflict(entry.id);
+        toast.success('Change discarded');
+      }
+    } catch (error) {
+      toast.error('Failed to update the offline queue');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center">
+          <div className="sm:flex-auto">
+            <h1 className="text-2xl font-semibold text-gray-900">Sync</h1>
+            <p className="mt-2 text-sm text-gray-700">
+              Changes you make without a connection are kept on this device and sent once you are back online.
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              type="button"
+              onClick={syncNow}
+              disabled={!isOnline || status === 'syncing' || pendingEntries.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ArrowPathIcon className={`h-4 w-4 mr-2 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+              Sync now
+            </button>
+          </div>
+        </div>
+
+        {!isOnline && (
+          <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-700">
+            You are offline. Showing the schedule saved on this device.
+          </div>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-lg font-medium text-gray-900">Needs your attention</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              The server refused these changes, usually because the event changed while you were offline.
+            </p>
+            <ul className="mt-4 space-y-4">
+              {conflicts.map(entry => {
+                const serverEvent = events.find(event => event._id === getMutationEventId(entry.mutation));
+                return (
+                  <li key={entry.id} className="bg-white shadow rounded-lg p-6">
+                    <div className="flex items-start">
+                      <ExclamationTriangleIcon className="h-5 w-5 text-red-500 mt-0.5" />
+                      <div className="ml-3 flex-1">
+                        <p className="text-sm font-medium text-gray-900">{describeMutation(entry)}</p>
+                        <p className="mt-1 text-sm text-red-600">{entry.conflict?.error}</p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Made {formatDate(entry.createdAt, 'MMM d, h:mm a')}
+                        </p>
+
+                        <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                          <div className="rounded-md bg-blue-50 p-3">
+                            <p className="text-xs font-medium uppercase text-blue-800">Your change</p>
+                            <p className="mt-1 text-sm text-blue-900">{describeChange(entry)}</p>
+                          </div>
+                          <div className="rounded-md bg-gray-50 p-3">
+                            <p className="text-xs font-medium uppercase text-gray-600">On the server now</p>
+                            <p className="mt-1 text-sm text-gray-900">
+                              {serverEvent
+                                ? `${serverEvent.title}, ${describeEventTimes(serverEvent)} (${serverEvent.status.replace('_', ' ').toLowerCase()})`
+                                : 'This event no longer exists'}
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="mt-4 flex justify-end space-x-3">
+                          <button
+                            type="button"
+                            onClick={() => handleResolve(entry, 'discard')}
+                            disabled={busyId === entry.id}
+                            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Discard my change
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleResolve(entry, 'retry')}
+                            disabled={busyId === entry.id || !isOnline}
+                            className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                          >
+                            Try again
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-8">
+          <h2 className="text-lg font-medium text-gray-900">Waiting to sync</h2>
+          {pendingEntries.length === 0 ? (
+            <div className="text-center py-12">
+              <CheckCircleIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">All changes are synced</h3>
+            </div>
+          ) : (
+            <ul className="mt-4 bg-white shadow rounded-lg divide-y divide-gray-100">
+              {pendingEntries.map(entry => (
+                <li key={entry.id} className="px-6 py-3 flex items-center justify-between">
+                  <span className="text-sm text-gray-900">{describeMutation(entry)}</span>
+                  <span className="text-xs text-gray-500">{formatDate(entry.createdAt, 'MMM d, h:mm a')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Sync;
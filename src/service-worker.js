@@ -0,0 +1,109 @@
+// Build template for /sw.js. The `serviceWorker` plugin in vite.config.ts fills in
+// the placeholders below with the hash and file list of each build.
+
+const SHELL_CACHE = 'slotswapper-shell-__BUILD_VERSION__';
+const API_CACHE = 'slotswapper-api';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+// The app's VITE_API_BASE_URL, which is usually on another origin than the app itself
+const API_BASE = new URL(__API_BASE_URL__, self.location.origin);
+const API_PATH = API_BASE.pathname.replace(/\/$/, '');
+
+// The events list is kept together with queued offline changes in IndexedDB, and a cached
+// server copy would overwrite those. Missed socket events and auth must always be live.
+// Matched against the path below API_PATH.
+const API_NETWORK_ONLY = [/^\/events/, /^\/socket-events/, /^\/auth\//];
+
+const getApiPath = (url) =>
+  url.origin === API_BASE.origin && url.pathname.startsWith(`${API_PATH}/`)
+    ? url.pathname.slice(API_PATH.length)
+    : null;
+
+self.addEventListener('install', (event) => {
+  // Waits for the page to send SKIP_WAITING, so the running tabs are not switched to new assets mid-session
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('slotswapper-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  } else if (event.data?.type === 'CLEAR_API_CACHE') {
+    event.waitUntil(caches.delete(API_CACHE));
+  }
+});
+
+// Notifications shown through the worker (see utils/notify.ts) focus an open tab when clicked
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => 'focus' in candidate);
+      return client ? client.focus() : self.clients.openWindow('/');
+    })
+  );
+});
+
+// Every client-side route is served by the same index.html, as nginx does with try_files
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const shell = await cache.match('/index.html');
+  return shell || fetch(request);
+};
+
+const handleAsset = async (request) => {
+  const cached = await caches.match(request);
+  return cached || fetch(request);
+};
+
+// Network first so data is fresh whenever the server is reachable
+const handleApiGet = async (request) => {
+  const cache = await caches.open(API_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET') return;
+
+  const apiPath = getApiPath(url);
+  if (apiPath !== null) {
+    if (!API_NETWORK_ONLY.some((pattern) => pattern.test(apiPath))) {
+      event.respondWith(handleApiGet(request));
+    }
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // Paths with an extension are files (e.g. the calendar feed), not app routes
+  if (request.mode === 'navigate' && !/\.[^/]+$/.test(url.pathname)) {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
@@ -2,20 +2,74 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  timeZone?: string;
+}
+
+export type NotificationEventType =
+  | 'swapRequestReceived'
+  | 'swapRequestAccepted'
+  | 'swapRequestRejected'
+  | 'swapRequestCancelled'
+  | 'swapRequestCountered'
+  | 'chainSwapUpdated'
+  | 'swapRequestExpired';
+
+export type NotificationChannel = 'toast' | 'desktop' | 'sound';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm in the user's time zone
+  end: string;
+}
+
+export interface UserPreferences {
+  timeZone: string;
+  // An empty list means the event is not announced at all
+  notificationChannels: Record<NotificationEventType, NotificationChannel[]>;
+  quietHours: QuietHours;
 }
 
 export interface AuthResponse {
   message: string;
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
+// Read-only credential for calendar subscriptions, separate from the session token so it can be revoked
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+}
+
+export interface RefreshResponse {
+  token: string;
+  // Present when the server rotates refresh tokens
+  refreshToken?: string;
+}
+
 export enum EventStatus {
   BUSY = 'BUSY',
   SWAPPABLE = 'SWAPPABLE',
   SWAP_PENDING = 'SWAP_PENDING'
 }
 
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY'
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  until?: string;
+  count?: number;
+  exceptions?: string[];
+}
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
 export interface Event {
   _id: string;
   title: string;
@@ -23,14 +77,32 @@ export interface Event {
   endTime: string;
   status: EventStatus;
   userId: string | User;
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
   createdAt: string;
   updatedAt: string;
 }
 
 export enum SwapRequestStatus {
+  // Waiting on the target user
   PENDING = 'PENDING',
+  // The target user proposed different slots; waiting on the requester
+  COUNTERED = 'COUNTERED',
   ACCEPTED = 'ACCEPTED',
-  REJECTED = 'REJECTED'
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+  // Nobody answered before `expiresAt`; both slots were released
+  EXPIRED = 'EXPIRED'
+}
+
+// One round of a negotiation; the request's slot fields always hold the latest offer
+export interface SwapOffer {
+  requesterSlotId: string | Event;
+  targetSlotId: string | Event;
+  requesterSlotIds?: (string | Event)[];
+  targetSlotIds?: (string | Event)[];
+  proposedBy: string | User;
+  createdAt: string;
 }
 
 export interface SwapRequest {
@@ -39,23 +111,147 @@ export interface SwapRequest {
   requesterSlotId: string | Event;
   targetUserId: string | User;
   targetSlotId: string | Event;
+  // Every slot on each side of a bundled swap, including the primary slot above
+  requesterSlotIds?: (string | Event)[];
+  targetSlotIds?: (string | Event)[];
   status: SwapRequestStatus;
+  expiresAt?: string;
+  message?: string;
+  rejectionReason?: string;
+  offers?: SwapOffer[];
   createdAt: string;
   updatedAt: string;
 }
 
+// A marketplace slot a user has said they would take, used to discover swap chains
+export interface SlotWish {
+  _id: string;
+  userId: string;
+  slotId: string;
+  createdAt: string;
+}
+
+export enum ChainSwapStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  DECLINED = 'DECLINED'
+}
+
+// One hop of a chain: `slotId` moves from its owner to `toUserId`
+export interface ChainSwapLink {
+  slotId: string | Event;
+  fromUserId: string | User;
+  toUserId: string | User;
+}
+
+export interface ChainSwap {
+  _id: string;
+  links: ChainSwapLink[];
+  // Participants who approved so far; the chain executes once every one of them has
+  approvedBy: string[];
+  declinedBy?: string;
+  status: ChainSwapStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum ActivityType {
+  REQUEST_SENT = 'REQUEST_SENT',
+  REQUEST_RECEIVED = 'REQUEST_RECEIVED',
+  REQUEST_COUNTERED = 'REQUEST_COUNTERED',
+  REQUEST_ACCEPTED = 'REQUEST_ACCEPTED',
+  REQUEST_REJECTED = 'REQUEST_REJECTED',
+  REQUEST_CANCELLED = 'REQUEST_CANCELLED',
+  REQUEST_EXPIRED = 'REQUEST_EXPIRED',
+  OWNERSHIP_CHANGED = 'OWNERSHIP_CHANGED'
+}
+
+export interface ActivityEntry {
+  _id: string;
+  type: ActivityType;
+  swapRequestId?: string;
+  // The other party, seen from the current user
+  counterpartId?: string | User;
+  slotIds: (string | Event)[];
+  // Set on OWNERSHIP_CHANGED entries
+  fromUserId?: string | User;
+  toUserId?: string | User;
+  createdAt: string;
+}
+
+// Named to stay clear of the browser's Notification
+export interface AppNotification {
+  _id: string;
+  // The socket event that produced it, e.g. 'swapRequestReceived'
+  type: string;
+  message: string;
+  swapRequestId?: string;
+  chainSwapId?: string;
+  eventId?: string;
+  read: boolean;
+  createdAt: string;
+}
+
 export interface CreateEventData {
   title: string;
   startTime: string;
   endTime: string;
   status?: EventStatus;
+  recurrence?: RecurrenceRule;
 }
 
 export interface CreateSwapRequestData {
   mySlotId: string;
   theirSlotId: string;
+  // Bundles: all offered slots, and all wanted slots from the same owner
+  mySlotIds?: string[];
+  theirSlotIds?: string[];
+  expiresAt?: string;
+  message?: string;
 }
 
 export interface SwapResponseData {
   accept: boolean;
-}
\ No newline at end of file
+  // Only sent with rejections
+  reason?: string;
+}
+
+export interface CounterOfferData {
+  requesterSlotId: string;
+  targetSlotId: string;
+  requesterSlotIds?: string[];
+  targetSlotIds?: string[];
+}
+
+export interface CreateChainSwapData {
+  links: { slotId: string; toUserId: string }[];
+}
+
+export type SocketConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// A socket event as recorded by the server, replayed after a reconnect
+export interface SocketEvent {
+  seq: number;
+  event: string;
+  data: unknown;
+}
+
+// Event changes made while offline, replayed in order once the server is reachable
+export type OutboxMutation =
+  | { kind: 'create'; tempId: string; data: CreateEventData }
+  | { kind: 'update'; eventId: string; data: Partial<CreateEventData>; scope?: RecurrenceScope }
+  | { kind: 'status'; eventId: string; status: EventStatus }
+  | { kind: 'delete'; eventId: string; scope?: RecurrenceScope };
+
+export interface OutboxEntry {
+  id: number;
+  userId: string;
+  mutation: OutboxMutation;
+  // The event as it looked when the change was made, for the conflict screen
+  baseEvent?: Event;
+  createdAt: string;
+  // Set when the server rejected the replayed change; the entry then waits for the user
+  conflict?: { error: string };
+}
+
+export type SyncStatus = 'synced' | 'offline' | 'syncing' | 'pending' | 'conflict';
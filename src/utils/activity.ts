@@ -0,0 +1,110 @@
+import { parseISO } from 'date-fns';
+import { ActivityEntry, ActivityType, Event, SwapRequest, SwapRequestStatus, User } from '../types';
+import { getRequestSlots } from './swapRequests';
+
+export type ActivityCategory = 'requests' | 'responses' | 'ownership';
+
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  [ActivityType.REQUEST_SENT]: 'Request sent',
+  [ActivityType.REQUEST_RECEIVED]: 'Request received',
+  [ActivityType.REQUEST_COUNTERED]: 'Counter-offer',
+  [ActivityType.REQUEST_ACCEPTED]: 'Swap accepted',
+  [ActivityType.REQUEST_REJECTED]: 'Swap rejected',
+  [ActivityType.REQUEST_CANCELLED]: 'Request withdrawn',
+  [ActivityType.REQUEST_EXPIRED]: 'Request expired',
+  [ActivityType.OWNERSHIP_CHANGED]: 'Ownership changed',
+};
+
+export const ACTIVITY_CATEGORIES: { value: ActivityCategory; label: string; types: ActivityType[] }[] = [
+  { value: 'requests', label: 'Requests', types: [ActivityType.REQUEST_SENT, ActivityType.REQUEST_RECEIVED] },
+  {
+    value: 'responses',
+    label: 'Responses',
+    types: [
+      ActivityType.REQUEST_COUNTERED,
+      ActivityType.REQUEST_ACCEPTED,
+      ActivityType.REQUEST_REJECTED,
+      ActivityType.REQUEST_CANCELLED,
+      ActivityType.REQUEST_EXPIRED,
+    ],
+  },
+  { value: 'ownership', label: 'Ownership changes', types: [ActivityType.OWNERSHIP_CHANGED] },
+];
+
+const OUTCOME_TYPES: Partial<Record<SwapRequestStatus, ActivityType>> = {
+  [SwapRequestStatus.ACCEPTED]: ActivityType.REQUEST_ACCEPTED,
+  [SwapRequestStatus.REJECTED]: ActivityType.REQUEST_REJECTED,
+  [SwapRequestStatus.CANCELLED]: ActivityType.REQUEST_CANCELLED,
+  [SwapRequestStatus.EXPIRED]: ActivityType.REQUEST_EXPIRED,
+};
+
+// Reconstructs what a request went through from its own fields
+const deriveRequestActivity = (request: SwapRequest, isIncoming: boolean): ActivityEntry[] => {
+  const { requesterSlots, targetSlots } = getRequestSlots(request);
+  const counterpartId = isIncoming ? request.requesterId : request.targetUserId;
+  const slotIds = [...requesterSlots, ...targetSlots];
+  const entry = (type: ActivityType, createdAt: string, suffix = ''): ActivityEntry => ({
+    _id: `${request._id}:${type}${suffix}`,
+    type,
+    swapRequestId: request._id,
+    counterpartId,
+    slotIds,
+    createdAt,
+  });
+
+  const entries = [entry(isIncoming ? ActivityType.REQUEST_RECEIVED : ActivityType.REQUEST_SENT, request.createdAt)];
+
+  (request.offers ?? []).slice(1).forEach((offer, index) => {
+    entries.push(entry(ActivityType.REQUEST_COUNTERED, offer.createdAt, `:${index}`));
+  });
+
+  const outcome = OUTCOME_TYPES[request.status];
+  if (outcome) {
+    entries.push(entry(outcome, request.updatedAt));
+  }
+
+  if (request.status === SwapRequestStatus.ACCEPTED) {
+    const move = (slot: Event, fromUserId: string | User, toUserId: string | User): ActivityEntry => ({
+      _id: `${request._id}:${ActivityType.OWNERSHIP_CHANGED}:${slot._id}`,
+      type: ActivityType.OWNERSHIP_CHANGED,
+      swapRequestId: request._id,
+      counterpartId,
+      slotIds: [slot],
+      fromUserId,
+      toUserId,
+      createdAt: request.updatedAt,
+    });
+    requesterSlots.forEach(slot => entries.push(move(slot, request.requesterId, request.targetUserId)));
+    targetSlots.forEach(slot => entries.push(move(slot, request.targetUserId, request.requesterId)));
+  }
+
+  return entries;
+};
+
+/**
+ * Merges the activity log with entries derived from my swap requests, newest
+ * first. Requests the log already covers are not derived again; derivation
+ * only fills in requests made before the log existed.
+ */
+export const buildTimeline = (
+  incoming: SwapRequest[],
+  outgoing: SwapRequest[],
+  activity: ActivityEntry[]
+): ActivityEntry[] => {
+  const logged = new Set(activity.map(entry => entry.swapRequestId).filter(Boolean));
+  const derived = [
+    ...incoming.filter(request => !logged.has(request._id)).flatMap(request => deriveRequestActivity(request, true)),
+    ...outgoing.filter(request => !logged.has(request._id)).flatMap(request => deriveRequestActivity(request, false)),
+  ];
+
+  return [...activity, ...derived].sort(
+    (a, b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime()
+  );
+};
+
+export const getUserName = (user: string | User | undefined, currentUserId?: string): string => {
+  if (!user) return 'Unknown user';
+  const id = typeof user === 'string' ? user : user.id;
+  if (id === currentUserId) return 'You';
+  return typeof user === 'string' ? 'Unknown user' : user.name;
+};
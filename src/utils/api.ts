@@ -1,5 +1,6 @@
-import axios from 'axios';
-import type { AuthResponse, Event, SwapRequest, CreateEventData, CreateSwapRequestData, SwapResponseData } from '../types';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { getTokenExpiry } from './jwt';
+import type { AuthResponse, RefreshResponse, CalendarFeed, Event, SwapRequest, CreateEventData, CreateSwapRequestData, SwapResponseData, CounterOfferData, RecurrenceScope, SlotWish, ChainSwap, CreateChainSwapData, ActivityEntry, AppNotification, SocketEvent, User, UserPreferences } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 
@@ -11,24 +12,110 @@ const api = axios.create({
   },
 });
 
+// True when the request never got a response, e.g. the device is offline
+export const isNetworkError = (error: any): boolean => !!error?.isAxiosError && !error.response;
+
+export type SessionEvent = { type: 'refreshed'; token: string } | { type: 'expired' };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
+export const subscribeSession = (listener: SessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+const emitSession = (event: SessionEvent) => {
+  sessionListeners.forEach(listener => listener(event));
+};
+
+// Requests this close to the token's expiry wait for a fresh token instead
+const EXPIRY_SKEW = 10 * 1000;
+
+let refreshPromise: Promise<string> | null = null;
+
+// Concurrent callers share one refresh, so a rotated refresh token is only spent once
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+      const response = await authAPI.refresh(refreshToken);
+      localStorage.setItem('token', response.token);
+      if (response.refreshToken) {
+        localStorage.setItem('refreshToken', response.refreshToken);
+      }
+      emitSession({ type: 'refreshed', token: response.token });
+      return response.token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const expireSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  emitSession({ type: 'expired' });
+};
+
+// Login, register and refresh must not wait on, or trigger, a refresh themselves
+const isAuthRequest = (config: InternalAxiosRequestConfig) => !!config.url?.startsWith('/auth/');
+
 // Request interceptor to add auth token
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+api.interceptors.request.use(async (config) => {
+  let token = localStorage.getItem('token');
+  if (token && !isAuthRequest(config)) {
+    const expiry = getTokenExpiry(token);
+    if (refreshPromise || (expiry !== null && expiry - Date.now() < EXPIRY_SKEW)) {
+      // Falls back to the current token; a 401 then ends the session
+      token = await refreshAccessToken().catch(() => token);
+    }
+  }
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Response interceptor to handle auth errors
+interface RetriedRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+// Response interceptor to refresh the token once and retry, ending the session when that fails
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/login';
+  async (error) => {
+    const config = error.config as RetriedRequestConfig | undefined;
+    if (error.response?.status !== 401 || !config || isAuthRequest(config)) {
+      return Promise.reject(error);
     }
+
+    if (!config._retried) {
+      config._retried = true;
+      let token: string;
+      try {
+        // Another request may already have refreshed the token this one was sent with
+        const stored = localStorage.getItem('token');
+        token = stored && config.headers.Authorization !== `Bearer ${stored}` ? stored : await refreshAccessToken();
+      } catch (refreshError) {
+        // Offline: keep the session and fail like any other request without a connection
+        if (isNetworkError(refreshError)) return Promise.reject(refreshError);
+        expireSession();
+        return Promise.reject(error);
+      }
+      config.headers.Authorization = `Bearer ${token}`;
+      return api(config);
+    }
+
+    expireSession();
     return Promise.reject(error);
   }
 );
@@ -44,6 +131,19 @@ export const authAPI = {
     const response = await api.post('/auth/login', data);
     return response.data;
   },
+
+  refresh: async (refreshToken: string): Promise<RefreshResponse> => {
+    const response = await api.post('/auth/refresh', { refreshToken });
+    return response.data;
+  },
+};
+
+// Users API
+export const usersAPI = {
+  updatePreferences: async (data: Partial<UserPreferences>): Promise<{ user: User; message: string }> => {
+    const response = await api.patch('/users/me/preferences', data);
+    return response.data;
+  },
 };
 
 // Events API
@@ -53,13 +153,14 @@ export const eventsAPI = {
     return response.data;
   },
 
-  createEvent: async (data: CreateEventData): Promise<{ event: Event; message: string }> => {
+  // Recurring events are expanded server-side; `events` then holds every created occurrence
+  createEvent: async (data: CreateEventData): Promise<{ event: Event; events?: Event[]; message: string }> => {
     const response = await api.post('/events', data);
     return response.data;
   },
 
-  updateEvent: async (eventId: string, data: CreateEventData): Promise<{ event: Event; message: string }> => {
-    const response = await api.put(`/events/${eventId}`, data);
+  updateEvent: async (eventId: string, data: Partial<CreateEventData>, scope?: RecurrenceScope): Promise<{ event: Event; message: string }> => {
+    const response = await api.put(`/events/${eventId}`, data, { params: { scope } });
     return response.data;
   },
 
@@ -68,8 +169,27 @@ export const eventsAPI = {
     return response.data;
   },
 
-  deleteEvent: async (eventId: string): Promise<{ message: string }> => {
-    const response = await api.delete(`/events/${eventId}`);
+  deleteEvent: async (eventId: string, scope?: RecurrenceScope): Promise<{ message: string }> => {
+    const response = await api.delete(`/events/${eventId}`, { params: { scope } });
+    return response.data;
+  },
+};
+
+// Calendar Feed API
+export const calendarFeedAPI = {
+  getFeed: async (): Promise<{ feed: CalendarFeed | null }> => {
+    const response = await api.get('/calendar-feed');
+    return response.data;
+  },
+
+  // Issues a new feed token; the previous one stops working
+  createFeed: async (): Promise<{ feed: CalendarFeed; message: string }> => {
+    const response = await api.post('/calendar-feed');
+    return response.data;
+  },
+
+  revokeFeed: async (): Promise<{ message: string }> => {
+    const response = await api.delete('/calendar-feed');
     return response.data;
   },
 };
@@ -86,11 +206,24 @@ export const swapsAPI = {
     return response.data;
   },
 
+  // Bundled swaps are accepted or rejected as a whole
   respondToSwapRequest: async (requestId: string, data: SwapResponseData): Promise<{ swapRequest: SwapRequest; message: string }> => {
     const response = await api.post(`/swap-response/${requestId}`, data);
     return response.data;
   },
 
+  // Proposes a different pair of slots; whoever moves next answers with respondToSwapRequest or counters again
+  counterSwapRequest: async (requestId: string, data: CounterOfferData): Promise<{ swapRequest: SwapRequest; message: string }> => {
+    const response = await api.post(`/swap-request/${requestId}/counter`, data);
+    return response.data;
+  },
+
+  // Withdraws a pending request the current user sent; both slots go back to SWAPPABLE
+  cancelSwapRequest: async (requestId: string): Promise<{ swapRequest: SwapRequest; message: string }> => {
+    const response = await api.post(`/swap-request/${requestId}/cancel`);
+    return response.data;
+  },
+
   getIncomingRequests: async (): Promise<{ requests: SwapRequest[] }> => {
     const response = await api.get('/incoming');
     return response.data;
@@ -102,4 +235,82 @@ export const swapsAPI = {
   },
 };
 
-export default api;
\ No newline at end of file
+// Wishlist API
+export const wishlistAPI = {
+  // Every user's wishes for currently swappable slots, so chains can be found across the marketplace
+  getWishes: async (): Promise<{ wishes: SlotWish[] }> => {
+    const response = await api.get('/wishlist');
+    return response.data;
+  },
+
+  addWish: async (slotId: string): Promise<{ wish: SlotWish; message: string }> => {
+    const response = await api.post('/wishlist', { slotId });
+    return response.data;
+  },
+
+  removeWish: async (slotId: string): Promise<{ message: string }> => {
+    const response = await api.delete(`/wishlist/${slotId}`);
+    return response.data;
+  },
+};
+
+// Chain Swaps API
+export const chainSwapsAPI = {
+  getChainSwaps: async (): Promise<{ chainSwaps: ChainSwap[] }> => {
+    const response = await api.get('/chain-swaps');
+    return response.data;
+  },
+
+  proposeChainSwap: async (data: CreateChainSwapData): Promise<{ chainSwap: ChainSwap; message: string }> => {
+    const response = await api.post('/chain-swaps', data);
+    return response.data;
+  },
+
+  // Declining cancels the chain for everyone; the last approval executes it
+  respondToChainSwap: async (chainSwapId: string, approve: boolean): Promise<{ chainSwap: ChainSwap; message: string }> => {
+    const response = await api.post(`/chain-swaps/${chainSwapId}/respond`, { approve });
+    return response.data;
+  },
+};
+
+// Activity API
+export const activityAPI = {
+  getActivity: async (): Promise<{ activity: ActivityEntry[] }> => {
+    const response = await api.get('/activity');
+    return response.data;
+  },
+
+  // Every recorded entry for one slot, oldest first
+  getSlotLineage: async (slotId: string): Promise<{ slot: Event; activity: ActivityEntry[] }> => {
+    const response = await api.get(`/activity/slots/${slotId}`);
+    return response.data;
+  },
+};
+
+// Notifications API
+export const notificationsAPI = {
+  getNotifications: async (): Promise<{ notifications: AppNotification[]; unreadCount: number }> => {
+    const response = await api.get('/notifications');
+    return response.data;
+  },
+
+  markRead: async (notificationId: string): Promise<{ notification: AppNotification }> => {
+    const response = await api.patch(`/notifications/${notificationId}/read`);
+    return response.data;
+  },
+
+  markAllRead: async (): Promise<{ message: string }> => {
+    const response = await api.post('/notifications/read-all');
+    return response.data;
+  },
+};
+
+// Socket API
+export const socketAPI = {
+  getMissedEvents: async (since: number): Promise<{ events: SocketEvent[] }> => {
+    const response = await api.get('/socket-events', { params: { since } });
+    return response.data;
+  },
+};
+
+export default api;
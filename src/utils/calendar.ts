@@ -0,0 +1,191 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Event, EventStatus } from '../types';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+// Height in pixels of one hour row in the day/week time grid
+export const HOUR_HEIGHT = 48;
+
+export const STATUS_COLORS: Record<EventStatus, string> = {
+  [EventStatus.BUSY]: 'bg-gray-100 border-gray-400 text-gray-800',
+  [EventStatus.SWAPPABLE]: 'bg-green-100 border-green-500 text-green-800',
+  [EventStatus.SWAP_PENDING]: 'bg-yellow-100 border-yellow-500 text-yellow-800',
+};
+
+export interface PositionedEvent {
+  event: Event;
+  start: Date;
+  end: Date;
+  top: number;
+  height: number;
+  column: number;
+  columns: number;
+}
+
+export const getVisibleDays = (view: CalendarView, date: Date): Date[] => {
+  if (view === 'day') {
+    return [startOfDay(date)];
+  }
+
+  if (view === 'week') {
+    return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) });
+  }
+
+  // Month view always renders whole weeks so the grid stays rectangular
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(date)),
+    end: endOfWeek(endOfMonth(date)),
+  });
+};
+
+export const shiftDate = (view: CalendarView, date: Date, direction: 1 | -1): Date => {
+  switch (view) {
+    case 'day':
+      return addDays(date, direction);
+    case 'week':
+      return addWeeks(date, direction);
+    case 'month':
+      return addMonths(date, direction);
+  }
+};
+
+export const getRangeLabel = (view: CalendarView, date: Date): string => {
+  if (view === 'day') {
+    return format(date, 'EEEE, MMMM d, yyyy');
+  }
+
+  if (view === 'week') {
+    const start = startOfWeek(date);
+    const end = endOfWeek(date);
+    return start.getMonth() === end.getMonth()
+      ? `${format(start, 'MMM d')} - ${format(end, 'd, yyyy')}`
+      : `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+  }
+
+  return format(date, 'MMMM yyyy');
+};
+
+// Returns the events that intersect the given day, in start order
+export const getEventsForDay = (events: Event[], day: Date): Event[] => {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  return events
+    .filter(event => parseISO(event.startTime) < dayEnd && parseISO(event.endTime) > dayStart)
+    .sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+};
+
+/**
+ * Positions the events of a single day on the time grid. Events are clipped to
+ * the day, and overlapping events are split into side-by-side columns.
+ */
+export const layoutDayEvents = (events: Event[], day: Date): PositionedEvent[] => {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  const segments = getEventsForDay(events, day).map(event => {
+    const start = max([parseISO(event.startTime), dayStart]);
+    const end = min([parseISO(event.endTime), dayEnd]);
+    const startMinutes = differenceInMinutes(start, dayStart);
+    const durationMinutes = Math.max(differenceInMinutes(end, start), 15);
+
+    return {
+      event,
+      start,
+      end,
+      top: (startMinutes / 60) * HOUR_HEIGHT,
+      height: (durationMinutes / 60) * HOUR_HEIGHT,
+      column: 0,
+      columns: 1,
+    };
+  });
+
+  // Group transitively overlapping events into clusters that share a column count
+  let cluster: PositionedEvent[] = [];
+  let columnEnds: Date[] = [];
+  let clusterEnd: Date | null = null;
+
+  const closeCluster = () => {
+    cluster.forEach(item => {
+      item.columns = columnEnds.length;
+    });
+    cluster = [];
+    columnEnds = [];
+    clusterEnd = null;
+  };
+
+  segments.forEach(segment => {
+    if (clusterEnd && segment.start >= clusterEnd) {
+      closeCluster();
+    }
+
+    const freeColumn = columnEnds.findIndex(columnEnd => columnEnd <= segment.start);
+    if (freeColumn === -1) {
+      segment.column = columnEnds.length;
+      columnEnds.push(segment.end);
+    } else {
+      segment.column = freeColumn;
+      columnEnds[freeColumn] = segment.end;
+    }
+
+    cluster.push(segment);
+    clusterEnd = clusterEnd && clusterEnd > segment.end ? clusterEnd : segment.end;
+  });
+  closeCluster();
+
+  return segments;
+};
+
+export const SNAP_OPTIONS = [5, 10, 15, 30, 60];
+export const DEFAULT_SNAP_MINUTES = 15;
+
+// Rounds a date to the nearest multiple of `stepMinutes` within its local day
+export const snapToStep = (date: Date, stepMinutes: number): Date => {
+  const dayStart = startOfDay(date);
+  const minutes = (date.getTime() - dayStart.getTime()) / (60 * 1000);
+  return addMinutes(dayStart, Math.round(minutes / stepMinutes) * stepMinutes);
+};
+
+
+// Events that share any time with the [start, end) range, ignoring `excludeId`
+export const findConflicts = (start: Date, end: Date, events: Event[], excludeId?: string): Event[] =>
+  events.filter(event =>
+    event._id !== excludeId &&
+    parseISO(event.startTime) < end &&
+    parseISO(event.endTime) > start
+  );
+
+// Ids of every event that overlaps at least one other event in the list
+export const getOverlappingEventIds = (events: Event[]): Set<string> => {
+  const overlapping = new Set<string>();
+  const sorted = [...events].sort((a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime());
+  let latest: Event | null = null;
+
+  sorted.forEach(event => {
+    if (latest && parseISO(event.startTime) < parseISO(latest.endTime)) {
+      overlapping.add(event._id);
+      overlapping.add(latest._id);
+    }
+    if (!latest || parseISO(event.endTime) > parseISO(latest.endTime)) {
+      latest = event;
+    }
+  });
+
+  return overlapping;
+};
@@ -0,0 +1,336 @@
+import { addDays } from 'date-fns';
+import { Event, EventStatus, RecurrenceFrequency, RecurrenceRule } from '../types';
+import {
+  DateTimeParts,
+  formatInTimeZone,
+  fromZonedTime,
+  getBrowserTimeZone,
+  isValidTimeZone,
+  toZonedTime,
+  zonedTimeToUtc,
+} from './timezone';
+
+export interface ICalEvent {
+  uid?: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  recurrence?: RecurrenceRule;
+  warnings: string[];
+}
+
+export interface ICalParseResult {
+  events: ICalEvent[];
+  skipped: number;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalDate {
+  date: Date;
+  allDay: boolean;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits `NAME;PARAM=VALUE:content`, ignoring separators inside quoted parameter values
+const parseProperty = (line: string): ICalProperty | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).match(/(?:[^;"]+|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+// `timeZone` places all-day and floating values, which name no zone of their own
+const parseDateValue = (value: string, params: Record<string, string>, timeZone: string): ICalDate | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const parts: DateTimeParts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+  };
+
+  // All-day values are calendar days, so they are placed at midnight in `timeZone`
+  if (params.VALUE === 'DATE' || hour === undefined) {
+    return { date: zonedTimeToUtc(parts, timeZone), allDay: true };
+  }
+
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)),
+      allDay: false,
+    };
+  }
+
+  if (params.TZID && isValidTimeZone(params.TZID)) {
+    return { date: zonedTimeToUtc(parts, params.TZID), allDay: false };
+  }
+
+  // Floating times, and zones we cannot resolve, are read as wall-clock times in `timeZone`
+  return { date: zonedTimeToUtc(parts, timeZone), allDay: false };
+};
+
+// Midnight of the following calendar day in `timeZone`, which is not always 24 hours later
+const nextDayInZone = (date: Date, timeZone: string): Date =>
+  fromZonedTime(addDays(toZonedTime(date, timeZone), 1), timeZone);
+
+// Supports the common `PnW` and `PnDTnHnMnS` forms of DURATION
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks ?? 0) * 7 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+};
+
+const parseRecurrenceRule = (value: string, warnings: string[], timeZone: string): RecurrenceRule | undefined => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue;
+  });
+
+  const frequency = parts.FREQ as RecurrenceFrequency;
+  if (frequency !== RecurrenceFrequency.DAILY && frequency !== RecurrenceFrequency.WEEKLY) {
+    warnings.push(`Repeats ${parts.FREQ?.toLowerCase() ?? 'in an unknown way'}; only the first occurrence is imported`);
+    return undefined;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Number(parts.INTERVAL) || 1,
+  };
+
+  if (parts.BYDAY && frequency === RecurrenceFrequency.WEEKLY) {
+    // Ordinal prefixes such as "2MO" only apply to monthly rules, so they are dropped
+    rule.byWeekday = parts.BYDAY.split(',')
+      .map(day => WEEKDAY_CODES.indexOf(day.replace(/^[+-]?\d+/, '').toUpperCase()))
+      .filter(day => day !== -1);
+  }
+
+  if (parts.COUNT) {
+    rule.count = Number(parts.COUNT);
+  } else if (parts.UNTIL) {
+    const until = parseDateValue(parts.UNTIL, {}, timeZone);
+    if (until) rule.until = formatInTimeZone(until.date, timeZone, 'yyyy-MM-dd');
+  }
+
+  return rule;
+};
+
+/**
+ * Parses the VEVENTs of an iCalendar (RFC 5545) document. Cancelled events and
+ * per-occurrence overrides (RECURRENCE-ID) are skipped.
+ */
+export const parseICalendar = (content: string, timeZone: string = getBrowserTimeZone()): ICalParseResult => {
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ICalEvent[] = [];
+  let skipped = 0;
+  let current: ICalProperty[] | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+
+    if (line === 'BEGIN:VEVENT') {
+      current = [];
+      nestedDepth = 0;
+      return;
+    }
+
+    if (!current) return;
+
+    // Skip components nested inside the event, such as VALARM
+    if (line.startsWith('BEGIN:')) {
+      nestedDepth++;
+      return;
+    }
+    if (line.startsWith('END:') && line !== 'END:VEVENT') {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      return;
+    }
+
+    if (line === 'END:VEVENT') {
+      const event = buildEvent(current, timeZone);
+      if (event) {
+        events.push(event);
+      } else {
+        skipped++;
+      }
+      current = null;
+      return;
+    }
+
+    if (nestedDepth === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  });
+
+  return { events, skipped };
+};
+
+const buildEvent = (properties: ICalProperty[], timeZone: string): ICalEvent | null => {
+  const find = (name: string) => properties.find(property => property.name === name);
+
+  if (find('RECURRENCE-ID') || find('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return null;
+  }
+
+  const dtStart = find('DTSTART');
+  const start = dtStart && parseDateValue(dtStart.value, dtStart.params, timeZone);
+  if (!start) return null;
+
+  const warnings: string[] = [];
+  const dtEnd = find('DTEND');
+  const durationProperty = find('DURATION');
+  const duration = durationProperty ? parseDuration(durationProperty.value) : null;
+  let end = dtEnd ? parseDateValue(dtEnd.value, dtEnd.params, timeZone)?.date : undefined;
+
+  if (!end && duration !== null) {
+    end = new Date(start.date.getTime() + duration);
+  }
+  if (!end || end <= start.date) {
+    // RFC 5545: without an end, an all-day event lasts one day and a timed event is instantaneous
+    end = start.allDay ? nextDayInZone(start.date, timeZone) : new Date(start.date.getTime() + 60 * 60 * 1000);
+    if (!start.allDay) warnings.push('No end time; assumed one hour');
+  }
+
+  const rrule = find('RRULE');
+  const recurrence = rrule ? parseRecurrenceRule(rrule.value, warnings, timeZone) : undefined;
+
+  if (recurrence) {
+    const exceptions = properties
+      .filter(property => property.name === 'EXDATE')
+      .flatMap(property => property.value.split(',').map(value => parseDateValue(value, property.params, timeZone)))
+      .filter((value): value is ICalDate => !!value)
+      .map(value => formatInTimeZone(value.date, timeZone, 'yyyy-MM-dd'));
+    if (exceptions.length) recurrence.exceptions = [...new Set(exceptions)].sort();
+  }
+
+  const summary = find('SUMMARY');
+
+  return {
+    uid: find('UID')?.value,
+    title: summary ? unescapeText(summary.value).trim() || 'Untitled event' : 'Untitled event',
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    recurrence,
+    warnings,
+  };
+};
+
+// Path of the subscribable feed, served by the dev/preview server stand-in in vite.config.ts
+export const CALENDAR_FEED_PATH = '/calendar/feed.ics';
+
+// Suffix that marks UIDs of events exported from SlotSwapper
+const UID_SUFFIX = '@slotswapper';
+
+export const getEventUid = (event: Event): string => `${event._id}${UID_SUFFIX}`;
+
+// Returns the SlotSwapper event id a UID was exported from, if any
+export const getEventIdFromUid = (uid?: string): string | null =>
+  uid?.endsWith(UID_SUFFIX) ? uid.slice(0, -UID_SUFFIX.length) : null;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatUtc = (value: string | Date): string =>
+  (typeof value === 'string' ? new Date(value) : value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Folds content lines longer than 75 octets as required by RFC 5545
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(chunk + char).length > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+};
+
+const STATUS_MAP: Record<EventStatus, string> = {
+  [EventStatus.BUSY]: 'CONFIRMED',
+  [EventStatus.SWAPPABLE]: 'CONFIRMED',
+  [EventStatus.SWAP_PENDING]: 'TENTATIVE',
+};
+
+/**
+ * Serializes events as an iCalendar document. UIDs are derived from `_id` so
+ * calendar clients update existing entries on re-import instead of duplicating them.
+ */
+export const buildICalendar = (events: Event[], calendarName = 'SlotSwapper'): string => {
+  const now = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SlotSwapper//Calendar Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${getEventUid(event)}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatUtc(event.startTime)}`,
+      `DTEND:${formatUtc(event.endTime)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      `STATUS:${STATUS_MAP[event.status]}`,
+      `CATEGORIES:${event.status}`,
+      `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
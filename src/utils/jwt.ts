@@ -0,0 +1,20 @@
+interface TokenClaims {
+  exp?: number;
+  iat?: number;
+}
+
+// Reads the payload without verifying it; the server remains the authority on whether a token is valid
+export const decodeToken = (token: string): TokenClaims | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')));
+  } catch {
+    return null;
+  }
+};
+
+// Milliseconds since the epoch, or null when the token does not say
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
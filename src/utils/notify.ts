@@ -0,0 +1,144 @@
+import toast from 'react-hot-toast';
+import type { NotificationChannel, NotificationEventType, QuietHours, UserPreferences } from '../types';
+import { formatInTimeZone } from './timezone';
+
+export const NOTIFICATION_EVENTS: { type: NotificationEventType; label: string }[] = [
+  { type: 'swapRequestReceived', label: 'New swap request' },
+  { type: 'swapRequestCountered', label: 'Counter-offer' },
+  { type: 'swapRequestAccepted', label: 'Request accepted' },
+  { type: 'swapRequestRejected', label: 'Request rejected' },
+  { type: 'swapRequestCancelled', label: 'Request withdrawn' },
+  { type: 'swapRequestExpired', label: 'Request expired' },
+  { type: 'chainSwapUpdated', label: 'Chain swap update' },
+];
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'toast', label: 'Toast' },
+  { value: 'desktop', label: 'Desktop' },
+  { value: 'sound', label: 'Sound' },
+];
+
+export const getDefaultNotificationChannels = (): Record<NotificationEventType, NotificationChannel[]> =>
+  NOTIFICATION_EVENTS.reduce(
+    (channels, { type }) => ({ ...channels, [type]: ['toast'] }),
+    {} as Record<NotificationEventType, NotificationChannel[]>
+  );
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00',
+};
+
+// Quiet hours may wrap past midnight, e.g. 22:00 to 07:00
+export const isWithinQuietHours = (quietHours: QuietHours, timeZone: string, now: Date = new Date()): boolean => {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+
+  const time = formatInTimeZone(now, timeZone, 'HH:mm');
+  if (quietHours.start < quietHours.end) {
+    return time >= quietHours.start && time < quietHours.end;
+  }
+  return time >= quietHours.start || time < quietHours.end;
+};
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+export const getDesktopPermission = (): DesktopPermission =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+export const requestDesktopPermission = async (): Promise<DesktopPermission> => {
+  if (!('Notification' in window)) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+let audioContext: AudioContext | null = null;
+
+export const playNotificationSound = () => {
+  try {
+    audioContext = audioContext ?? new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const startAt = audioContext.currentTime;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(880, startAt);
+    gain.gain.setValueAtTime(0.2, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.3);
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + 0.3);
+  } catch (error) {
+    console.error('Error playing notification sound:', error);
+  }
+};
+
+const createPageNotification = (title: string, options: NotificationOptions) => {
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Mobile browsers and installed apps only allow notifications shown through the service
+// worker, where `new Notification` throws. The worker is not registered in development,
+// so `ready` would never settle there; getRegistration resolves to undefined instead.
+const showDesktopNotification = async (type: NotificationEventType, message: string) => {
+  const title = 'SlotSwapper';
+  const options: NotificationOptions = {
+    body: message,
+    tag: type,
+    icon: '/icons/icon-192.png',
+  };
+
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration?.active) {
+      await registration.showNotification(title, options);
+    } else {
+      createPageNotification(title, options);
+    }
+  } catch (error) {
+    console.error('Error showing desktop notification:', error);
+  }
+};
+
+interface NotificationContent {
+  message: string;
+  icon: string;
+  variant?: 'success' | 'error';
+}
+
+export const dispatchNotification = (
+  type: NotificationEventType,
+  { message, icon, variant }: NotificationContent,
+  preferences: UserPreferences
+) => {
+  const channels = preferences.notificationChannels[type] ?? [];
+  const isQuiet = isWithinQuietHours(preferences.quietHours, preferences.timeZone);
+  const canShowDesktop =
+    channels.includes('desktop') && !isQuiet && getDesktopPermission() === 'granted' && document.hidden;
+
+  if (canShowDesktop) {
+    showDesktopNotification(type, message);
+  }
+
+  // A desktop-only event still surfaces in the open tab rather than being dropped
+  if (channels.includes('toast') || (channels.includes('desktop') && !canShowDesktop && !document.hidden)) {
+    const options = { duration: 5000, icon };
+    if (variant === 'success') {
+      toast.success(message, options);
+    } else if (variant === 'error') {
+      toast.error(message, options);
+    } else {
+      toast(message, options);
+    }
+  }
+
+  if (channels.includes('sound') && !isQuiet) {
+    playNotificationSound();
+  }
+};
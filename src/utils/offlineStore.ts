@@ -0,0 +1,94 @@
+import type { OutboxEntry } from '../types';
+
+const DB_NAME = 'slotswapper';
+const DB_VERSION = 1;
+const QUERIES_STORE = 'queries';
+const OUTBOX_STORE = 'outbox';
+
+interface StoredQuery {
+  // `${userId}:${key}`
+  id: string;
+  userId: string;
+  key: string;
+  data: unknown;
+  savedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(QUERIES_STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteByUserId = async (storeName: string, userId: string) => {
+  const keys = await run<IDBValidKey[]>(storeName, 'readonly', store => store.index('userId').getAllKeys(userId));
+  await Promise.all(keys.map(key => run(storeName, 'readwrite', store => store.delete(key))));
+};
+
+export const offlineStore = {
+  getQueries: async (userId: string): Promise<{ key: string; data: unknown }[]> => {
+    const stored = await run<StoredQuery[]>(QUERIES_STORE, 'readonly', store => store.index('userId').getAll(userId));
+    return stored.map(({ key, data }) => ({ key, data }));
+  },
+
+  putQuery: async (userId: string, key: string, data: unknown): Promise<void> => {
+    const record: StoredQuery = { id: `${userId}:${key}`, userId, key, data, savedAt: new Date().toISOString() };
+    await run(QUERIES_STORE, 'readwrite', store => store.put(record));
+  },
+
+  getOutbox: async (userId: string): Promise<OutboxEntry[]> => {
+    const entries = await run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.index('userId').getAll(userId));
+    return entries.sort((a, b) => a.id - b.id);
+  },
+
+  addToOutbox: async (entry: Omit<OutboxEntry, 'id'>): Promise<number> => {
+    const id = await run(OUTBOX_STORE, 'readwrite', store => store.add(entry));
+    return id as number;
+  },
+
+  putOutboxEntry: async (entry: OutboxEntry): Promise<void> => {
+    await run(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  },
+
+  removeFromOutbox: async (id: number): Promise<void> => {
+    await run(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  },
+
+  // Queued changes are kept, so they can still be sent once their user signs in again
+  clearQueries: async (): Promise<void> => {
+    await run(QUERIES_STORE, 'readwrite', store => store.clear());
+  },
+
+  clearUser: async (userId: string): Promise<void> => {
+    await deleteByUserId(QUERIES_STORE, userId);
+    await deleteByUserId(OUTBOX_STORE, userId);
+  },
+};
@@ -0,0 +1,74 @@
+type Listener = () => void;
+
+const queues = new Map<string, Promise<unknown>>();
+const pendingCounts = new Map<string, number>();
+// Undos of failed changes that a later pending change was building on
+const deferredUndos = new Map<string, (() => void)[]>();
+const listeners = new Set<Listener>();
+let pendingIds: ReadonlySet<string> = new Set();
+
+const setPendingCount = (id: string, count: number) => {
+  if (count > 0) {
+    pendingCounts.set(id, count);
+  } else {
+    pendingCounts.delete(id);
+  }
+  pendingIds = new Set(pendingCounts.keys());
+  listeners.forEach(listener => listener());
+};
+
+export const getPendingIds = () => pendingIds;
+
+export const subscribePending = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Requests for the same id run one after another, in the order they were made
+const enqueue = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+  const previous = queues.get(id) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  queues.set(id, run);
+  run.catch(() => undefined).finally(() => {
+    if (queues.get(id) === run) queues.delete(id);
+  });
+  return run;
+};
+
+interface OptimisticMutation<R> {
+  // The entity being changed; mutations sharing an id are sent in order
+  id: string;
+  // Changes the cached data right away and returns how to undo it
+  apply: () => () => void;
+  mutate: () => Promise<R>;
+  // Stores the server's version, skipped while a later change to the same id is still pending
+  commit?: (result: R) => void;
+}
+
+export const runOptimistic = async <R>({ id, apply, mutate, commit }: OptimisticMutation<R>): Promise<R> => {
+  const undo = apply();
+  setPendingCount(id, (pendingCounts.get(id) ?? 0) + 1);
+
+  try {
+    const result = await enqueue(id, mutate);
+    if (pendingCounts.get(id) === 1) {
+      deferredUndos.delete(id);
+      commit?.(result);
+    }
+    return result;
+  } catch (error) {
+    if (pendingCounts.get(id) === 1) {
+      // Unwind this change and any earlier failed ones, newest first
+      [undo, ...(deferredUndos.get(id) ?? []).reverse()].forEach(fn => fn());
+      deferredUndos.delete(id);
+    } else {
+      // A later change builds on this one; undo it only if that change fails too
+      deferredUndos.set(id, [...(deferredUndos.get(id) ?? []), undo]);
+    }
+    throw error;
+  } finally {
+    setPendingCount(id, (pendingCounts.get(id) ?? 1) - 1);
+  }
+};
@@ -0,0 +1,236 @@
+import { CreateEventData, Event, EventStatus, OutboxEntry, OutboxMutation, RecurrenceScope } from '../types';
+import { eventsAPI, isNetworkError } from './api';
+import { offlineStore } from './offlineStore';
+import { getQueryState, invalidateQueries, setQueryData } from './queryCache';
+import { queryKeys } from './queries';
+
+type Listener = () => void;
+
+interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+}
+
+export const OFFLINE_SAVE_MESSAGE = 'Saved offline. It will sync when you are back online.';
+
+// The lists that are kept in IndexedDB so the app can render without a connection
+export const PERSISTED_QUERY_KEYS = [
+  queryKeys.events,
+  queryKeys.swappableSlots,
+  queryKeys.wishes,
+  queryKeys.incomingRequests,
+  queryKeys.outgoingRequests,
+  queryKeys.chainSwaps,
+];
+
+let currentUserId: string | null = null;
+let snapshot: OutboxSnapshot = { entries: [], isReplaying: false };
+const listeners = new Set<Listener>();
+
+const update = (changes: Partial<OutboxSnapshot>) => {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+export const getOutboxSnapshot = () => snapshot;
+
+export const subscribeOutbox = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const loadOutbox = async (userId: string | null) => {
+  currentUserId = userId;
+  update({ entries: userId ? await offlineStore.getOutbox(userId) : [] });
+};
+
+const getPendingEntries = () => snapshot.entries.filter(entry => !entry.conflict);
+
+export const getMutationEventId = (mutation: OutboxMutation) =>
+  mutation.kind === 'create' ? mutation.tempId : mutation.eventId;
+
+export const describeMutation = ({ mutation, baseEvent }: OutboxEntry): string => {
+  const title = mutation.kind === 'create' ? mutation.data.title : baseEvent?.title ?? 'event';
+  switch (mutation.kind) {
+    case 'create':
+      return `Create "${title}"`;
+    case 'update':
+      return `Edit "${title}"`;
+    case 'status':
+      return `Mark "${title}" as ${mutation.status.toLowerCase().replace('_', ' ')}`;
+    case 'delete':
+      return `Delete "${title}"`;
+  }
+};
+
+const getCachedEvent = (eventId: string) =>
+  getQueryState<Event[]>(queryKeys.events).data?.find(event => event._id === eventId);
+
+const persistEntry = async (entry: OutboxEntry) => {
+  await offlineStore.putOutboxEntry(entry);
+  update({ entries: snapshot.entries.map(item => (item.id === entry.id ? entry : item)) });
+};
+
+const removeEntry = async (id: number) => {
+  await offlineStore.removeFromOutbox(id);
+  update({ entries: snapshot.entries.filter(entry => entry.id !== id) });
+};
+
+const enqueue = async (mutation: OutboxMutation, baseEvent?: Event) => {
+  if (!currentUserId) {
+    throw new Error('Cannot queue changes while signed out');
+  }
+  const entry = { userId: currentUserId, mutation, baseEvent, createdAt: new Date().toISOString() };
+  const id = await offlineStore.addToOutbox(entry);
+  update({ entries: [...snapshot.entries, { ...entry, id }] });
+};
+
+// Goes straight to the server unless offline or earlier changes are still queued, since those must land first
+const sendOrQueue = async <R extends object>(
+  send: () => Promise<R>,
+  mutation: OutboxMutation,
+  queuedResult: () => R
+): Promise<R & { queued?: boolean }> => {
+  if (navigator.onLine && getPendingEntries().length === 0) {
+    try {
+      const result: R & { queued?: boolean } = await send();
+      return result;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const eventId = getMutationEventId(mutation);
+  await enqueue(mutation, mutation.kind === 'create' ? undefined : getCachedEvent(eventId));
+  return { ...queuedResult(), queued: true };
+};
+
+const applyLocally = (eventId: string, changes: Partial<Event>): Event => ({
+  ...(getCachedEvent(eventId) as Event),
+  ...changes,
+  updatedAt: new Date().toISOString(),
+});
+
+// Same shape as eventsAPI's mutations; changes made offline resolve with a local result and `queued`
+export const offlineEventsAPI = {
+  createEvent: (data: CreateEventData) => {
+    const tempId = `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    return sendOrQueue(() => eventsAPI.createEvent(data), { kind: 'create', tempId, data }, () => ({
+      event: {
+        _id: tempId,
+        title: data.title,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        status: data.status ?? EventStatus.BUSY,
+        recurrence: data.recurrence,
+        userId: currentUserId as string,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      } as Event,
+      events: undefined as Event[] | undefined,
+      message: OFFLINE_SAVE_MESSAGE,
+    }));
+  },
+
+  updateEvent: (eventId: string, data: Partial<CreateEventData>, scope?: RecurrenceScope) =>
+    sendOrQueue(() => eventsAPI.updateEvent(eventId, data, scope), { kind: 'update', eventId, data, scope }, () => ({
+      event: applyLocally(eventId, { ...data, status: data.status ?? getCachedEvent(eventId)?.status }),
+      message: OFFLINE_SAVE_MESSAGE,
+    })),
+
+  updateEventStatus: (eventId: string, status: EventStatus) =>
+    sendOrQueue(() => eventsAPI.updateEventStatus(eventId, status), { kind: 'status', eventId, status }, () => ({
+      event: applyLocally(eventId, { status }),
+      message: OFFLINE_SAVE_MESSAGE,
+    })),
+
+  deleteEvent: (eventId: string, scope?: RecurrenceScope) =>
+    sendOrQueue(() => eventsAPI.deleteEvent(eventId, scope), { kind: 'delete', eventId, scope }, () => ({
+      message: OFFLINE_SAVE_MESSAGE,
+    })),
+};
+
+// Later entries may still point at the temporary id of an event created offline
+const replaceTempId = async (tempId: string, event: Event) => {
+  setQueryData<Event[]>(queryKeys.events, prev => (prev ?? []).map(item => (item._id === tempId ? event : item)));
+
+  for (const entry of snapshot.entries) {
+    if (entry.mutation.kind !== 'create' && entry.mutation.eventId === tempId) {
+      await persistEntry({ ...entry, mutation: { ...entry.mutation, eventId: event._id } });
+    }
+  }
+};
+
+const sendMutation = async (mutation: OutboxMutation) => {
+  switch (mutation.kind) {
+    case 'create': {
+      const response = await eventsAPI.createEvent(mutation.data);
+      await replaceTempId(mutation.tempId, response.event);
+      return;
+    }
+    case 'update':
+      await eventsAPI.updateEvent(mutation.eventId, mutation.data, mutation.scope);
+      return;
+    case 'status':
+      await eventsAPI.updateEventStatus(mutation.eventId, mutation.status);
+      return;
+    case 'delete':
+      await eventsAPI.deleteEvent(mutation.eventId, mutation.scope);
+      return;
+  }
+};
+
+export const replayOutbox = async () => {
+  if (snapshot.isReplaying || !navigator.onLine || getPendingEntries().length === 0) return;
+
+  update({ isReplaying: true });
+  let changed = false;
+  try {
+    for (const { id } of getPendingEntries()) {
+      // Re-read, as an earlier create may have rewritten this entry
+      const entry = snapshot.entries.find(item => item.id === id);
+      if (!entry || entry.conflict) continue;
+
+      try {
+        await sendMutation(entry.mutation);
+        await removeEntry(entry.id);
+        changed = true;
+      } catch (error: any) {
+        // Still offline, or the session ended; keep the rest queued in order for the next attempt
+        if (isNetworkError(error) || error.response?.status === 401) break;
+        await persistEntry({
+          ...entry,
+          conflict: { error: error.response?.data?.error || 'The server rejected this change' },
+        });
+        changed = true;
+      }
+    }
+  } finally {
+    update({ isReplaying: false });
+    if (changed) {
+      invalidateQueries(queryKeys.events, queryKeys.swappableSlots);
+    }
+  }
+};
+
+export const retryOutboxEntry = async (id: number) => {
+  const entry = snapshot.entries.find(item => item.id === id);
+  if (!entry) return;
+  await persistEntry({ ...entry, conflict: undefined });
+  await replayOutbox();
+};
+
+// Drops everything stored for the signed-in user, queued changes included
+export const discardOfflineData = async () => {
+  if (!currentUserId) return;
+  await offlineStore.clearUser(currentUserId);
+  update({ entries: [] });
+};
+
+export const discardOutboxEntry = async (id: number) => {
+  await removeEntry(id);
+  // Drop whatever the discarded change left in the local lists
+  invalidateQueries(queryKeys.events);
+};
@@ -0,0 +1,70 @@
+import { Query } from './queryCache';
+import { activityAPI, chainSwapsAPI, eventsAPI, swapsAPI, wishlistAPI } from './api';
+import type { ActivityEntry, ChainSwap, Event, SlotWish, SwapRequest } from '../types';
+
+export const queryKeys = {
+  events: 'events',
+  swappableSlots: 'swappableSlots',
+  wishes: 'wishes',
+  swapRequests: 'swapRequests',
+  incomingRequests: 'swapRequests:incoming',
+  outgoingRequests: 'swapRequests:outgoing',
+  chainSwaps: 'chainSwaps',
+  activity: 'activity',
+};
+
+export const queries = {
+  events: {
+    key: queryKeys.events,
+    fetch: async () => (await eventsAPI.getEvents()).events,
+  } as Query<Event[]>,
+
+  swappableSlots: {
+    key: queryKeys.swappableSlots,
+    fetch: async () => (await swapsAPI.getSwappableSlots()).slots,
+  } as Query<Event[]>,
+
+  wishes: {
+    key: queryKeys.wishes,
+    fetch: async () => (await wishlistAPI.getWishes()).wishes,
+  } as Query<SlotWish[]>,
+
+  incomingRequests: {
+    key: queryKeys.incomingRequests,
+    fetch: async () => (await swapsAPI.getIncomingRequests()).requests,
+  } as Query<SwapRequest[]>,
+
+  outgoingRequests: {
+    key: queryKeys.outgoingRequests,
+    fetch: async () => (await swapsAPI.getOutgoingRequests()).requests,
+  } as Query<SwapRequest[]>,
+
+  chainSwaps: {
+    key: queryKeys.chainSwaps,
+    fetch: async () => (await chainSwapsAPI.getChainSwaps()).chainSwaps,
+  } as Query<ChainSwap[]>,
+
+  activity: {
+    key: queryKeys.activity,
+    fetch: async () => (await activityAPI.getActivity()).activity,
+  } as Query<ActivityEntry[]>,
+
+  slotLineage: (slotId: string): Query<{ slot: Event; activity: ActivityEntry[] }> => ({
+    key: `${queryKeys.activity}:slot:${slotId}`,
+    fetch: () => activityAPI.getSlotLineage(slotId),
+  }),
+};
+
+// What each swap mutation or socket event can change on the server
+export const SWAP_CHANGE_KEYS = [queryKeys.swapRequests, queryKeys.events, queryKeys.swappableSlots, queryKeys.activity];
+
+// Slot events are applied in place by the Marketplace, so they are not listed here
+export const SOCKET_EVENT_INVALIDATIONS: Record<string, string[]> = {
+  swapRequestReceived: SWAP_CHANGE_KEYS,
+  swapRequestAccepted: SWAP_CHANGE_KEYS,
+  swapRequestRejected: SWAP_CHANGE_KEYS,
+  swapRequestCancelled: SWAP_CHANGE_KEYS,
+  swapRequestCountered: [queryKeys.swapRequests, queryKeys.activity],
+  swapRequestExpired: SWAP_CHANGE_KEYS,
+  chainSwapUpdated: [queryKeys.chainSwaps, queryKeys.events, queryKeys.swappableSlots, queryKeys.activity],
+};
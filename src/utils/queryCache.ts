@@ -0,0 +1,149 @@
+import { isNetworkError } from './api';
+
+export interface Query<T> {
+  key: string;
+  fetch: () => Promise<T>;
+}
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  // 0 when the data has never been fetched or has been invalidated
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+type Listener = () => void;
+type DataListener = (key: string, data: unknown) => void;
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false };
+
+const entries = new Map<string, QueryState<unknown>>();
+const listeners = new Map<string, Set<Listener>>();
+const fetchers = new Map<string, () => Promise<unknown>>();
+const dataListeners = new Set<DataListener>();
+const inFlight = new Map<string, Promise<unknown>>();
+// Keys invalidated while a fetch was running; that response may predate the change
+const refetchAfterFlight = new Set<string>();
+// Bumped on clear so responses for a previous session are dropped
+let generation = 0;
+
+const setEntry = (key: string, changes: Partial<QueryState<unknown>>) => {
+  const prev = getQueryState(key);
+  entries.set(key, { ...prev, ...changes });
+  listeners.get(key)?.forEach(listener => listener());
+  if ('data' in changes && changes.data !== prev.data) {
+    dataListeners.forEach(listener => listener(key, changes.data));
+  }
+};
+
+// Keys are namespaced with ':' so 'swapRequests' also matches 'swapRequests:incoming'
+const matchesKey = (key: string, prefix: string) => key === prefix || key.startsWith(`${prefix}:`);
+
+export const getQueryState = <T>(key: string): QueryState<T> =>
+  (entries.get(key) ?? EMPTY_STATE) as QueryState<T>;
+
+export const subscribeQuery = (key: string, listener: Listener) => {
+  const keyListeners = listeners.get(key) ?? new Set<Listener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+  return () => {
+    keyListeners.delete(listener);
+    // Failed first loads are not cached, so the next screen to need this key tries again cleanly
+    const state = getQueryState(key);
+    if (!keyListeners.size && state.error && state.data === undefined) {
+      entries.delete(key);
+    }
+  };
+};
+
+// Concurrent callers for the same key share one request
+export const fetchQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  fetchers.set(key, fetcher);
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const startedIn = generation;
+  setEntry(key, { isFetching: true });
+
+  const promise = fetcher()
+    .then(data => {
+      if (startedIn === generation) {
+        setEntry(key, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+      }
+      return data;
+    }, error => {
+      if (startedIn === generation) {
+        // While offline the cached data is still the best we have, so it is not treated as a failure
+        const keepData = isNetworkError(error) && getQueryState(key).data !== undefined;
+        setEntry(key, keepData ? { isFetching: false } : { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (startedIn !== generation) return;
+      inFlight.delete(key);
+      if (refetchAfterFlight.delete(key)) {
+        fetchQuery(key, fetcher).catch(() => undefined);
+      }
+    });
+
+  inFlight.set(key, promise);
+  return promise;
+};
+
+// Fetches only when there is no data yet or it is older than staleTime; cached data stays visible meanwhile
+export const ensureQuery = <T>(key: string, fetcher: () => Promise<T>, staleTime = DEFAULT_STALE_TIME) => {
+  const state = getQueryState<T>(key);
+  if (state.updatedAt && Date.now() - state.updatedAt < staleTime) return;
+  fetchQuery(key, fetcher).catch(() => undefined);
+};
+
+export const setQueryData = <T>(key: string, updater: T | ((prev: T | undefined) => T)) => {
+  const prev = getQueryState<T>(key).data;
+  const data = typeof updater === 'function' ? (updater as (prev: T | undefined) => T)(prev) : updater;
+  setEntry(key, { data });
+};
+
+// Seeds a query from storage without marking it fresh, so it is still refetched when used.
+// A first load that failed offline before storage was read shows the stored data instead.
+export const hydrateQuery = (key: string, data: unknown) => {
+  if (getQueryState(key).data !== undefined) return;
+  setEntry(key, { data, error: undefined, updatedAt: 0 });
+};
+
+// Called whenever a query's data changes, e.g. to persist it
+export const subscribeQueryData = (listener: DataListener) => {
+  dataListeners.add(listener);
+  return () => {
+    dataListeners.delete(listener);
+  };
+};
+
+// Marks matching queries stale and refetches the ones currently on screen
+export const invalidateQueries = (...prefixes: string[]) => {
+  [...entries.keys()]
+    .filter(key => prefixes.some(prefix => matchesKey(key, prefix)))
+    .forEach(key => {
+      setEntry(key, { updatedAt: 0 });
+
+      const fetcher = fetchers.get(key);
+      if (!fetcher || !listeners.get(key)?.size) return;
+      if (inFlight.has(key)) {
+        refetchAfterFlight.add(key);
+      } else {
+        fetchQuery(key, fetcher).catch(() => undefined);
+      }
+    });
+};
+
+export const clearQueryCache = () => {
+  generation += 1;
+  entries.clear();
+  fetchers.clear();
+  inFlight.clear();
+  refetchAfterFlight.clear();
+  listeners.forEach(keyListeners => keyListeners.forEach(listener => listener()));
+};
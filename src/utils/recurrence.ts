@@ -0,0 +1,89 @@
+import { addDays, addWeeks, endOfDay, format, parseISO, startOfWeek } from 'date-fns';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Upper bound on generated occurrences so an open-ended rule cannot run away
+export const MAX_OCCURRENCES = 366;
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+// Exception dates are stored as local calendar days (yyyy-MM-dd)
+export const toExceptionDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Expands a recurrence rule into concrete occurrences of the [start, end) slot.
+ * Like RFC 5545, `count` is applied before exception dates are removed.
+ */
+export const expandRecurrence = (start: Date, end: Date, rule: RecurrenceRule): Occurrence[] => {
+  const duration = end.getTime() - start.getTime();
+  const interval = Math.max(1, rule.interval || 1);
+  const until = rule.until ? endOfDay(parseISO(rule.until)) : null;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const exceptions = new Set(rule.exceptions ?? []);
+  const starts: Date[] = [];
+
+  const accept = (candidate: Date): boolean => {
+    if (until && candidate > until) return false;
+    starts.push(candidate);
+    return starts.length < limit;
+  };
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    for (let candidate = start; accept(candidate); candidate = addDays(candidate, interval));
+  } else {
+    const weekdays = [...new Set(rule.byWeekday?.length ? rule.byWeekday : [start.getDay()])].sort((a, b) => a - b);
+    const firstWeek = startOfWeek(start);
+    const timeOfDay = start.getTime() - new Date(start).setHours(0, 0, 0, 0);
+
+    outer: for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const day = addDays(addWeeks(firstWeek, week), weekday);
+        const candidate = new Date(day.getTime() + timeOfDay);
+        if (candidate < start) continue;
+        if (!accept(candidate)) break outer;
+      }
+    }
+  }
+
+  return starts
+    .filter(candidate => !exceptions.has(toExceptionDate(candidate)))
+    .map(candidate => ({ start: candidate, end: new Date(candidate.getTime() + duration) }));
+};
+
+// Weekdays, `until` and exception dates are calendar days in `timeZone`, not in the browser's zone
+export const expandZonedRecurrence = (start: Date, end: Date, rule: RecurrenceRule, timeZone: string): Occurrence[] =>
+  expandRecurrence(toZonedTime(start, timeZone), toZonedTime(end, timeZone), rule).map(occurrence => ({
+    start: fromZonedTime(occurrence.start, timeZone),
+    end: fromZonedTime(occurrence.end, timeZone),
+  }));
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  if (rule.frequency === RecurrenceFrequency.DAILY) {
+    description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+  } else {
+    description = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+    if (rule.byWeekday?.length) {
+      description += ` on ${[...rule.byWeekday].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+    }
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  }
+
+  if (rule.exceptions?.length) {
+    description += ` (${rule.exceptions.length} skipped)`;
+  }
+
+  return description;
+};
\ No newline at end of file
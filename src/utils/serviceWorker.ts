@@ -0,0 +1,65 @@
+type Listener = () => void;
+
+// How often an open tab checks whether a new build has been deployed
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<Listener>();
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+};
+
+export const isUpdateAvailable = () => waitingWorker !== null;
+
+export const subscribeUpdate = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const trackInstalling = (registration: ServiceWorkerRegistration) => {
+  const worker = registration.installing;
+  if (!worker) return;
+  worker.addEventListener('statechange', () => {
+    // Without a controller this is the first install, which has nothing to replace
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      setWaitingWorker(worker);
+    }
+  });
+};
+
+export const registerServiceWorker = async () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting);
+    }
+    registration.addEventListener('updatefound', () => trackInstalling(registration));
+
+    setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        registration.update().catch(() => {});
+      }
+    });
+  } catch (error) {
+    console.error('Error registering service worker:', error);
+  }
+};
+
+// Activates the new build and reloads once it controls the page
+export const applyUpdate = () => {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+// Cached API responses belong to whoever was signed in
+export const clearApiCache = () => {
+  navigator.serviceWorker?.controller?.postMessage({ type: 'CLEAR_API_CACHE' });
+};
@@ -0,0 +1,116 @@
+import { parseISO } from 'date-fns';
+import { Event, User } from '../types';
+import { formatInTimeZone, toZonedTime } from './timezone';
+
+export type SlotSort = 'start' | 'duration' | 'newest';
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface SlotFilters {
+  from?: string;
+  to?: string;
+  timeOfDay: TimeOfDay[];
+  weekdays: number[];
+  minDuration?: number;
+  maxDuration?: number;
+  owner?: string;
+  q?: string;
+  sort: SlotSort;
+}
+
+export const DEFAULT_SLOT_SORT: SlotSort = 'start';
+
+// Start hour ranges, in the viewer's time zone; night wraps past midnight
+export const TIME_OF_DAY_OPTIONS: { value: TimeOfDay; label: string; from: number; to: number }[] = [
+  { value: 'morning', label: 'Morning', from: 5, to: 12 },
+  { value: 'afternoon', label: 'Afternoon', from: 12, to: 17 },
+  { value: 'evening', label: 'Evening', from: 17, to: 21 },
+  { value: 'night', label: 'Night', from: 21, to: 5 },
+];
+
+export const SORT_OPTIONS: { value: SlotSort; label: string }[] = [
+  { value: 'start', label: 'Start time' },
+  { value: 'duration', label: 'Duration' },
+  { value: 'newest', label: 'Newest' },
+];
+
+export const getDurationMinutes = (slot: Event): number =>
+  Math.round((parseISO(slot.endTime).getTime() - parseISO(slot.startTime).getTime()) / (1000 * 60));
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const parseSlotFilters = (params: URLSearchParams): SlotFilters => {
+  const sort = params.get('sort') as SlotSort | null;
+  const timeOfDayValues = TIME_OF_DAY_OPTIONS.map(option => option.value);
+
+  return {
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    timeOfDay: (params.get('time')?.split(',') ?? []).filter((value): value is TimeOfDay =>
+      timeOfDayValues.includes(value as TimeOfDay)
+    ),
+    weekdays: (params.get('days')?.split(',') ?? [])
+      .map(Number)
+      .filter(day => Number.isInteger(day) && day >= 0 && day <= 6),
+    minDuration: parseNumber(params.get('minDuration')),
+    maxDuration: parseNumber(params.get('maxDuration')),
+    owner: params.get('owner') || undefined,
+    q: params.get('q') || undefined,
+    sort: sort && SORT_OPTIONS.some(option => option.value === sort) ? sort : DEFAULT_SLOT_SORT,
+  };
+};
+
+// Only non-default values are written, so unfiltered views keep a clean URL
+export const serializeSlotFilters = (filters: SlotFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  if (filters.owner) params.set('owner', filters.owner);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.weekdays.length) params.set('days', [...filters.weekdays].sort((a, b) => a - b).join(','));
+  if (filters.timeOfDay.length) params.set('time', filters.timeOfDay.join(','));
+  if (filters.minDuration !== undefined) params.set('minDuration', String(filters.minDuration));
+  if (filters.maxDuration !== undefined) params.set('maxDuration', String(filters.maxDuration));
+  if (filters.sort !== DEFAULT_SLOT_SORT) params.set('sort', filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: SlotFilters): boolean =>
+  serializeSlotFilters({ ...filters, sort: DEFAULT_SLOT_SORT }).toString() !== '';
+
+export const getTimeOfDay = (hour: number): TimeOfDay =>
+  TIME_OF_DAY_OPTIONS.find(option =>
+    option.from < option.to ? hour >= option.from && hour < option.to : hour >= option.from || hour < option.to
+  )!.value;
+
+export const applySlotFilters = (slots: Event[], filters: SlotFilters, timeZone: string): Event[] => {
+  const keyword = filters.q?.trim().toLowerCase();
+
+  const filtered = slots.filter(slot => {
+    const zonedStart = toZonedTime(slot.startTime, timeZone);
+    const day = formatInTimeZone(slot.startTime, timeZone, 'yyyy-MM-dd');
+    const duration = getDurationMinutes(slot);
+    const owner = slot.userId as User;
+
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+    if (filters.weekdays.length && !filters.weekdays.includes(zonedStart.getDay())) return false;
+    if (filters.timeOfDay.length && !filters.timeOfDay.includes(getTimeOfDay(zonedStart.getHours()))) return false;
+    if (filters.minDuration !== undefined && duration < filters.minDuration) return false;
+    if (filters.maxDuration !== undefined && duration > filters.maxDuration) return false;
+    if (filters.owner && owner?.id !== filters.owner) return false;
+    if (keyword && !slot.title.toLowerCase().includes(keyword)) return false;
+    return true;
+  });
+
+  const comparators: Record<SlotSort, (a: Event, b: Event) => number> = {
+    start: (a, b) => parseISO(a.startTime).getTime() - parseISO(b.startTime).getTime(),
+    duration: (a, b) => getDurationMinutes(a) - getDurationMinutes(b),
+    newest: (a, b) => parseISO(b.createdAt).getTime() - parseISO(a.createdAt).getTime(),
+  };
+
+  return filtered.sort(comparators[filters.sort]);
+};
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { parseISO } from 'date-fns';
+import { Event, EventStatus } from '../types';
+import { findConflicts } from './calendar';
+import { getDurationMinutes, getTimeOfDay } from './slotFilters';
+import { toZonedTime } from './timezone';
+
+export interface SlotReason {
+  label: string;
+  tone: 'positive' | 'negative';
+}
+
+export interface RankedSlot {
+  slot: Event;
+  score: number;
+  reasons: SlotReason[];
+  // My other events that would overlap the target slot once this one is given away
+  clashes: Event[];
+  // Set when one of the clashes is BUSY, so accepting would double-book me
+  blocked: boolean;
+}
+
+// My events, other than the ones I give away, that would overlap the slots I receive
+export const findSwapClashes = (offeredIds: string[], receivedSlots: Event[], myEvents: Event[]): Event[] => {
+  const remaining = myEvents.filter(event => !offeredIds.includes(event._id));
+  const clashes = new Map<string, Event>();
+  receivedSlots.forEach(slot => {
+    findConflicts(parseISO(slot.startTime), parseISO(slot.endTime), remaining).forEach(event => {
+      clashes.set(event._id, event);
+    });
+  });
+  return [...clashes.values()];
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+
+const rankSlot = (slot: Event, targetSlot: Event, myEvents: Event[], timeZone: string): RankedSlot => {
+  const reasons: SlotReason[] = [];
+  let score = 0;
+
+  const slotDuration = getDurationMinutes(slot);
+  const targetDuration = getDurationMinutes(targetSlot);
+  const difference = Math.abs(slotDuration - targetDuration);
+  const similarity = Math.min(slotDuration, targetDuration) / Math.max(slotDuration, targetDuration, 1);
+  score += similarity * 40;
+  if (difference === 0) {
+    reasons.push({ label: 'Same length', tone: 'positive' });
+  } else if (similarity >= 0.75) {
+    reasons.push({ label: `Similar length (${formatMinutes(difference)} off)`, tone: 'positive' });
+  } else {
+    reasons.push({
+      label: `${formatMinutes(difference)} ${slotDuration < targetDuration ? 'shorter' : 'longer'}`,
+      tone: 'negative',
+    });
+  }
+
+  const zonedSlot = toZonedTime(slot.startTime, timeZone);
+  const zonedTarget = toZonedTime(targetSlot.startTime, timeZone);
+  if (zonedSlot.getDay() === zonedTarget.getDay()) {
+    score += 20;
+    reasons.push({ label: 'Same weekday', tone: 'positive' });
+  }
+  if (getTimeOfDay(zonedSlot.getHours()) === getTimeOfDay(zonedTarget.getHours())) {
+    score += 20;
+    reasons.push({ label: 'Same time of day', tone: 'positive' });
+  }
+
+  const clashes = findSwapClashes([slot._id], [targetSlot], myEvents);
+  const blocked = clashes.some(event => event.status === EventStatus.BUSY);
+  if (clashes.length > 0) {
+    score -= blocked ? 100 : 30;
+    reasons.push({
+      label: `Clashes with ${clashes.map(event => event.title).join(', ')}`,
+      tone: 'negative',
+    });
+  } else {
+    score += 20;
+    reasons.push({ label: 'No clashes', tone: 'positive' });
+  }
+
+  return { slot, score, reasons, clashes, blocked };
+};
+
+/**
+ * Orders the slots I could offer for `targetSlot`, best first, with the
+ * reasons behind each score. Weekday and time of day are compared in the
+ * viewer's time zone.
+ */
+export const rankSlotsForTarget = (
+  mySlots: Event[],
+  targetSlot: Event,
+  myEvents: Event[],
+  timeZone: string
+): RankedSlot[] =>
+  mySlots
+    .map(slot => rankSlot(slot, targetSlot, myEvents, timeZone))
+    .sort((a, b) => b.score - a.score || parseISO(a.slot.startTime).getTime() - parseISO(b.slot.startTime).getTime());
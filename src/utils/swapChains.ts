@@ -0,0 +1,76 @@
+import { parseISO } from 'date-fns';
+import { Event, SlotWish, User } from '../types';
+
+export interface SwapChainLink {
+  slot: Event;
+  fromUserId: string;
+  toUserId: string;
+}
+
+export interface SwapChain {
+  links: SwapChainLink[];
+}
+
+export const MAX_CHAIN_LENGTH = 4;
+
+export const getSlotOwnerId = (slot: Event): string =>
+  typeof slot.userId === 'string' ? slot.userId : slot.userId.id;
+
+export const getUserId = (user: string | User): string => (typeof user === 'string' ? user : user.id);
+
+/**
+ * Finds cycles of three or more people that include `userId`, where each
+ * person takes a slot they wished for from the next one. Two-person cycles
+ * are left out because a plain swap request covers them. Each pair of
+ * neighbours uses the earliest wished-for slot between them.
+ */
+export const findSwapChains = (
+  slots: Event[],
+  wishes: SlotWish[],
+  userId: string,
+  maxLength: number = MAX_CHAIN_LENGTH
+): SwapChain[] => {
+  const slotsById = new Map(slots.map(slot => [slot._id, slot]));
+
+  // wanted.get(taker).get(owner) = the slot `taker` would take from `owner`
+  const wanted = new Map<string, Map<string, Event>>();
+  wishes.forEach(wish => {
+    const slot = slotsById.get(wish.slotId);
+    if (!slot) return;
+    const ownerId = getSlotOwnerId(slot);
+    if (ownerId === wish.userId) return;
+
+    const byOwner = wanted.get(wish.userId) ?? new Map<string, Event>();
+    const current = byOwner.get(ownerId);
+    if (!current || parseISO(slot.startTime) < parseISO(current.startTime)) {
+      byOwner.set(ownerId, slot);
+    }
+    wanted.set(wish.userId, byOwner);
+  });
+
+  const chains: SwapChain[] = [];
+
+  const visit = (path: string[]) => {
+    const last = path[path.length - 1];
+    wanted.get(last)?.forEach((_, ownerId) => {
+      if (ownerId === userId) {
+        if (path.length >= 3) {
+          chains.push({
+            links: path.map((taker, index) => {
+              const owner = path[(index + 1) % path.length];
+              return { slot: wanted.get(taker)!.get(owner)!, fromUserId: owner, toUserId: taker };
+            }),
+          });
+        }
+        return;
+      }
+      if (path.length < maxLength && !path.includes(ownerId)) {
+        visit([...path, ownerId]);
+      }
+    });
+  };
+
+  visit([userId]);
+
+  return chains.sort((a, b) => a.links.length - b.links.length);
+};
@@ -0,0 +1,48 @@
+import { addHours, addMinutes, min, parseISO } from 'date-fns';
+import { Event, SwapOffer, SwapRequest, SwapRequestStatus } from '../types';
+import { getDurationMinutes } from './slotFilters';
+
+export const isOpenSwapRequest = (request: SwapRequest): boolean =>
+  request.status === SwapRequestStatus.PENDING || request.status === SwapRequestStatus.COUNTERED;
+
+// Fresh offers wait on the target user, counter-offers on the requester
+export const isAwaitingResponse = (request: SwapRequest, isIncoming: boolean): boolean =>
+  isIncoming ? request.status === SwapRequestStatus.PENDING : request.status === SwapRequestStatus.COUNTERED;
+
+// Both sides of a request or offer; single-slot swaps only carry the primary slot fields
+export const getRequestSlots = (offer: SwapRequest | SwapOffer): { requesterSlots: Event[]; targetSlots: Event[] } => ({
+  requesterSlots: (offer.requesterSlotIds?.length ? offer.requesterSlotIds : [offer.requesterSlotId]) as Event[],
+  targetSlots: (offer.targetSlotIds?.length ? offer.targetSlotIds : [offer.targetSlotId]) as Event[],
+});
+
+export const getTotalMinutes = (slots: Event[]): number =>
+  slots.reduce((total, slot) => total + getDurationMinutes(slot), 0);
+
+export const formatHours = (minutes: number): string => {
+  const hours = Math.round((minutes / 60) * 100) / 100;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+export const DEFAULT_EXPIRY_LEAD_HOURS = 2;
+const MIN_EXPIRY_MINUTES = 15;
+
+// A few hours before the earliest slot starts, but never sooner than a short grace period from now
+export const getDefaultExpiry = (slots: Event[], now: Date = new Date()): Date => {
+  const earliestStart = min(slots.map(slot => parseISO(slot.startTime)));
+  const preferred = addHours(earliestStart, -DEFAULT_EXPIRY_LEAD_HOURS);
+  const soonest = addMinutes(now, MIN_EXPIRY_MINUTES);
+  return preferred > soonest ? preferred : min([soonest, earliestStart]);
+};
+
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
@@ -0,0 +1,122 @@
+import { format } from 'date-fns';
+
+export interface DateTimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock parts of `date` as seen in `timeZone`
+export const getZonedParts = (date: Date, timeZone: string): DateTimeParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to the instant it denotes. The
+ * offset is re-checked once so times next to a DST change resolve correctly.
+ */
+export const zonedTimeToUtc = (parts: DateTimeParts, timeZone: string): Date => {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const adjustedOffset = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - adjustedOffset);
+};
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Fallback for browsers without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Moscow',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+};
+
+/**
+ * Returns a Date whose local fields show the wall-clock time of `date` in
+ * `timeZone`, so date-fns helpers and the calendar grid can work in that zone.
+ */
+export const toZonedTime = (date: Date | string, timeZone: string): Date => {
+  const instant = typeof date === 'string' ? new Date(date) : date;
+  const parts = getZonedParts(instant, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant.getMilliseconds());
+};
+
+// Inverse of toZonedTime: reads the local fields of `date` as a wall-clock time in `timeZone`
+export const fromZonedTime = (date: Date, timeZone: string): Date =>
+  zonedTimeToUtc(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    },
+    timeZone
+  );
+
+export const formatInTimeZone = (date: Date | string, timeZone: string, pattern: string): string =>
+  format(toZonedTime(date, timeZone), pattern);
+
+// Short zone name such as "PST" or "GMT+5:30" at the given instant
+export const getTimeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
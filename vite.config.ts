@@ -1,14 +1,113 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+import { defineConfig, type Connect, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { CALENDAR_FEED_PATH, buildICalendar } from './src/utils/ical'
+import type { Event } from './src/types'
+
+const API_TARGET = 'http://localhost:3000'
+// Same fallback as src/utils/api.ts
+const DEFAULT_API_BASE_URL = 'http://localhost:3000/api'
+
+// Local stand-in for a calendar feed endpoint: fetches the subscriber's events from
+// the API with their read-only feed token and serves them as an iCalendar document.
+// Session tokens are never accepted here, as feed URLs end up with third-party servers.
+const calendarFeedMiddleware: Connect.NextHandleFunction = async (req, res, next) => {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  if (req.method !== 'GET' || url.pathname !== CALENDAR_FEED_PATH) return next()
+
+  const token = url.searchParams.get('token')
+  if (!token) {
+    res.statusCode = 401
+    res.end('Missing token')
+    return
+  }
+
+  try {
+    const response = await fetch(`${API_TARGET}/api/calendar-feed/events`, {
+      headers: { 'X-Feed-Token': token },
+    })
+    if (!response.ok) {
+      res.statusCode = response.status
+      res.end()
+      return
+    }
+
+    const { events } = (await response.json()) as { events: Event[] }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+    res.end(buildICalendar(events))
+  } catch {
+    res.statusCode = 502
+    res.end('Calendar feed unavailable')
+  }
+}
+
+const calendarFeed = (): Plugin => ({
+  name: 'calendar-feed',
+  configureServer(server) {
+    server.middlewares.use(calendarFeedMiddleware)
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(calendarFeedMiddleware)
+  },
+})
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  )
+
+// Builds /sw.js from src/service-worker.js with the URLs of this build to precache.
+// The version changes with any output file, which is what makes browsers install an update.
+const serviceWorker = (): Plugin => {
+  let root = ''
+  let publicDir = ''
+  let apiBaseUrl = DEFAULT_API_BASE_URL
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      root = config.root
+      publicDir = config.publicDir
+      apiBaseUrl = config.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256')
+      const urls = new Set(['/index.html'])
+
+      for (const output of Object.values(bundle)) {
+        if (output.fileName.endsWith('.map')) continue
+        urls.add(`/${output.fileName}`)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      }
+      if (publicDir) {
+        for (const file of listFiles(publicDir)) {
+          urls.add(`/${relative(publicDir, file).split('\\').join('/')}`)
+          hash.update(readFileSync(file))
+        }
+      }
+
+      const source = readFileSync(resolve(root, 'src/service-worker.js'), 'utf-8')
+        .replace('__BUILD_VERSION__', () => hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE_URLS__', () => JSON.stringify([...urls], null, 2))
+        .replace('__API_BASE_URL__', () => JSON.stringify(apiBaseUrl))
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), calendarFeed(), serviceWorker()],
   server: {
     port: 5173,
     proxy: {
       '/api': {
-        target: 'http://localhost:3000',
+        target: API_TARGET,
         changeOrigin: true
       }
     }